@@ -1,12 +1,12 @@
 import type { KnipConfig } from "knip";
 
 const config: KnipConfig = {
-  entry: ["src/worker.ts", "deploy/setup-kv-namespace.ts"],
+  entry: ["src/worker.ts", "src/server/index.ts", "deploy/setup-kv-namespace.ts"],
   project: ["src/**/*.ts"],
   ignore: ["jest.config.ts"],
   ignoreBinaries: ["i", "publish"],
   ignoreExportsUsedInFile: true,
-  ignoreDependencies: ["@mswjs/data", "esbuild", "eslint-config-prettier", "eslint-plugin-prettier", "msw", "ts-node"],
+  ignoreDependencies: ["@mswjs/data", "eslint-config-prettier", "eslint-plugin-prettier", "msw", "ts-node"],
 };
 
 export default config;
@@ -0,0 +1,56 @@
+import { GitHubEventHandler } from "../github-event-handler";
+
+/**
+ * GitHub only redelivers the webhooks of the past three days, the cursor is never set further back than that.
+ */
+const MAX_DELIVERY_AGE = 3 * 24 * 60 * 60 * 1000;
+/**
+ * Bounds the pages of deliveries read by a single run, so a flood of webhooks cannot exhaust the Worker.
+ */
+const MAX_PAGES = 10;
+const CURSOR_KEY = "app";
+
+/**
+ * Webhooks that could not be delivered, because the Worker was down or failed, are lost unless redelivered. This goes
+ * through the webhook deliveries of the app, newest first, down to the cursor saved by the previous run, and asks GitHub
+ * to redeliver every webhook whose deliveries all failed. Redeliveries are not redelivered again when they fail too.
+ */
+export async function reconcileFailedDeliveries(eventHandler: GitHubEventHandler, now = Date.now()) {
+  const cursor = await eventHandler.deliveryCursor.get(CURSOR_KEY);
+  const since = Math.max(cursor ? Date.parse(cursor.deliveredAt) : 0, now - MAX_DELIVERY_AGE);
+  const octokit = eventHandler.getUnauthenticatedOctokit();
+
+  let newestDeliveredAt: string | null = null;
+  const succeededWebhooks = new Set<string>();
+  const failedDeliveries = new Map<string, number>();
+  let pages = 0;
+  pagination: for await (const { data: deliveries } of octokit.paginate.iterator(octokit.rest.apps.listWebhookDeliveries, { per_page: 100 })) {
+    for (const delivery of deliveries) {
+      if (Date.parse(delivery.delivered_at) <= since) {
+        break pagination;
+      }
+      newestDeliveredAt ??= delivery.delivered_at;
+      if (delivery.status_code >= 200 && delivery.status_code < 300) {
+        succeededWebhooks.add(delivery.guid);
+      } else if (!delivery.redelivery && !succeededWebhooks.has(delivery.guid)) {
+        failedDeliveries.set(delivery.guid, delivery.id);
+      }
+    }
+    if (++pages >= MAX_PAGES) {
+      console.warn(`Stopped reconciling the webhook deliveries after ${MAX_PAGES} pages, older failed deliveries will not be redelivered`);
+      break;
+    }
+  }
+
+  for (const [guid, id] of failedDeliveries) {
+    console.log(`Redelivering the webhook ${guid} (delivery ${id})`);
+    try {
+      await octokit.rest.apps.redeliverWebhookDelivery({ delivery_id: id });
+    } catch (error) {
+      console.error(`Could not redeliver the webhook ${guid}`, error);
+    }
+  }
+  if (newestDeliveredAt) {
+    await eventHandler.deliveryCursor.put(CURSOR_KEY, { deliveredAt: newestDeliveredAt });
+  }
+}
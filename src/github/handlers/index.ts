@@ -4,11 +4,15 @@ import { GitHubEventHandler } from "../github-event-handler";
 import { getConfig } from "../utils/config";
 import issueCommentCreated from "./issue-comment-created";
 import { repositoryDispatch } from "./repository-dispatch";
-import { dispatchWorker, dispatchWorkflow, getDefaultBranch } from "../utils/workflow-dispatch";
-import { PluginInput } from "../types/plugin";
-import { isGithubPlugin, PluginConfiguration } from "../types/plugin-configuration";
+import { PluginChainState } from "../types/plugin";
+import { PluginConfiguration } from "../types/plugin-configuration";
+import { recordPluginChainEvent } from "../utils/audit-log";
+import { acquireConcurrencyGroup } from "../utils/concurrency";
+import { dispatchPluginChainStep } from "../utils/plugin-chain";
 import { getManifest, getPluginsForEvent } from "../utils/plugins";
+import { handleInstallationEvent, handleRepositoryEvent } from "./installation-event";
 import handlePushEvent from "./push-event";
+import { workflowRunCompleted } from "./workflow-run-completed";
 
 function tryCatchWrapper(fn: (event: EmitterWebhookEvent) => unknown) {
   return async (event: EmitterWebhookEvent) => {
@@ -20,10 +24,22 @@ function tryCatchWrapper(fn: (event: EmitterWebhookEvent) => unknown) {
   };
 }
 
-export function bindHandlers(eventHandler: GitHubEventHandler) {
+/**
+ * Binds the handlers of every event. A replay can be limited to the plugin chain named `pluginChain`, in which case
+ * nothing but that chain runs.
+ */
+export function bindHandlers(eventHandler: GitHubEventHandler, options?: { pluginChain?: string }) {
+  if (options?.pluginChain) {
+    const pluginChain = options.pluginChain;
+    eventHandler.onAny(tryCatchWrapper((event) => handleEvent(event, eventHandler, pluginChain)));
+    return;
+  }
   eventHandler.on("repository_dispatch", repositoryDispatch);
   eventHandler.on("issue_comment.created", issueCommentCreated);
   eventHandler.on("push", handlePushEvent);
+  eventHandler.on("workflow_run.completed", workflowRunCompleted);
+  eventHandler.on(["installation", "installation_repositories", "installation_target"], handleInstallationEvent);
+  eventHandler.on(["repository.edited", "repository.renamed", "repository.transferred", "repository.deleted"], handleRepositoryEvent);
   eventHandler.onAny(tryCatchWrapper((event) => handleEvent(event, eventHandler))); // onAny should also receive GithubContext but the types in octokit/webhooks are weird
 }
 
@@ -47,7 +63,7 @@ export async function shouldSkipPlugin(context: GitHubContext, pluginChain: Plug
   return false;
 }
 
-async function handleEvent(event: EmitterWebhookEvent, eventHandler: InstanceType<typeof GitHubEventHandler>) {
+async function handleEvent(event: EmitterWebhookEvent, eventHandler: InstanceType<typeof GitHubEventHandler>, pluginChainName?: string) {
   const context = eventHandler.transformEvent(event);
 
   const config = await getConfig(context);
@@ -62,7 +78,7 @@ async function handleEvent(event: EmitterWebhookEvent, eventHandler: InstanceTyp
     return;
   }
 
-  const pluginChains = getPluginsForEvent(config.plugins, context.key);
+  const pluginChains = getPluginsForEvent(config.plugins, context.key).filter(({ name }) => !pluginChainName || name === pluginChainName);
 
   if (pluginChains.length === 0) {
     console.log(`No handler found for event ${event.name}`);
@@ -79,45 +95,35 @@ async function handleEvent(event: EmitterWebhookEvent, eventHandler: InstanceTyp
         return;
       }
 
-      // invoke the first plugin in the chain
-      const { plugin, with: settings } = pluginChain.uses[0];
-      const isGithubPluginObject = isGithubPlugin(plugin);
-      console.log(`Calling handler ${JSON.stringify(plugin)} for event ${event.name}`);
-
       const stateId = crypto.randomUUID();
 
-      const state = {
+      const state: PluginChainState = {
         eventId: context.id,
         eventName: context.key,
         eventPayload: event.payload,
+        status: "in_progress",
         currentPlugin: 0,
         pluginChain: pluginChain.uses,
+        skippedPlugins: [],
+        deadlines: new Array(pluginChain.uses.length),
+        attempts: new Array(pluginChain.uses.length),
         outputs: new Array(pluginChain.uses.length),
         inputs: new Array(pluginChain.uses.length),
       };
 
-      const ref = isGithubPluginObject ? (plugin.ref ?? (await getDefaultBranch(context, plugin.owner, plugin.repo))) : plugin;
-      const token = await eventHandler.getToken(event.payload.installation.id);
-      const inputs = new PluginInput(context.eventHandler, stateId, context.key, event.payload, settings, token, ref);
-
-      state.inputs[0] = inputs;
-      await eventHandler.pluginChainState.put(stateId, state);
-
       // We wrap the dispatch so a failing plugin doesn't break the whole execution
       try {
-        if (!isGithubPluginObject) {
-          await dispatchWorker(plugin, await inputs.getWorkerInputs());
-        } else {
-          await dispatchWorkflow(context, {
-            owner: plugin.owner,
-            repository: plugin.repo,
-            workflowId: plugin.workflowId,
-            ref: plugin.ref,
-            inputs: await inputs.getWorkflowInputs(),
-          });
-        }
+        await recordPluginChainEvent(context.eventHandler, stateId, state, "created", { details: { chain: pluginChain.name } });
+        // The chain is locked from the start, so no output or scheduled job can update it before it is dispatched
+        await context.eventHandler.pluginChainLock.withLock(stateId, async () => {
+          if (pluginChain.concurrency && !(await acquireConcurrencyGroup(context.eventHandler, stateId, state, pluginChain.concurrency))) {
+            return;
+          }
+          // invoke the first plugin in the chain, Worker plugins will carry on with the rest of the chain on their own
+          await dispatchPluginChainStep(context, stateId, state);
+        });
       } catch (e) {
-        console.error(`An error occurred while processing the plugin chain, will skip plugin ${JSON.stringify(plugin)}`, e);
+        console.error(`An error occurred while processing the plugin chain, will skip plugin ${JSON.stringify(pluginChain.uses[0].plugin)}`, e);
       }
     })
   );
@@ -0,0 +1,44 @@
+import { GitHubContext } from "../github-context";
+import { forgetDefaultBranch, forgetInstallation } from "../utils/installations";
+
+/**
+ * Installations that are created, deleted, suspended, renamed or given other repositories invalidate the cached
+ * lookups of their account.
+ */
+export async function handleInstallationEvent(context: GitHubContext<"installation" | "installation_repositories" | "installation_target">) {
+  const { payload } = context;
+  const { account } = "account" in payload ? payload : payload.installation;
+  // Enterprise installations have no login, and are never looked up by owner
+  const logins: string[] = [];
+  if (account && "login" in account && account.login) {
+    logins.push(account.login);
+  }
+  if ("changes" in payload && payload.changes.login?.from) {
+    logins.push(payload.changes.login.from);
+  }
+  for (const login of logins) {
+    await forgetInstallation(context.eventHandler, login);
+  }
+}
+
+/**
+ * Repositories whose default branch could have changed, or that moved to another name or owner.
+ */
+export async function handleRepositoryEvent(
+  context: GitHubContext<"repository.edited" | "repository.renamed" | "repository.transferred" | "repository.deleted">
+) {
+  const { payload } = context;
+  const repositories = [{ owner: payload.repository.owner.login, name: payload.repository.name }];
+  if (payload.action === "renamed") {
+    repositories.push({ owner: payload.repository.owner.login, name: payload.changes.repository.name.from });
+  } else if (payload.action === "transferred") {
+    const from = payload.changes.owner.from;
+    const owner = "user" in from ? from.user?.login : from.organization?.login;
+    if (owner) {
+      repositories.push({ owner, name: payload.repository.name });
+    }
+  }
+  for (const { owner, name } of repositories) {
+    await forgetDefaultBranch(context.eventHandler, owner, name);
+  }
+}
@@ -0,0 +1,49 @@
+import { GitHubEventHandler } from "../github-event-handler";
+import { getPluginChainStepIndexes } from "../types/plugin-configuration";
+import { recordPluginChainEvent } from "../utils/audit-log";
+import { trackPluginChainDeadline } from "../utils/plugin-chain-deadlines";
+import { commentOnPluginChainEvent, getPluginName, releasePluginChain } from "../utils/plugin-chain";
+
+/**
+ * Scans the deadlines of the plugin chains in progress for plugins that did not return their output in time, which
+ * usually means the Action crashed before reaching `returnDataToKernel`. These chains are marked as timed out so any
+ * late output gets ignored, and the issue or pull request of the event is told about it. Only the chains whose
+ * deadline passed get locked and read.
+ */
+export async function timeoutPluginChains(eventHandler: GitHubEventHandler, now = Date.now()) {
+  for (const stateId of await eventHandler.pluginChainDeadlines.list()) {
+    const entry = await eventHandler.pluginChainDeadlines.get(stateId);
+    if (!entry || entry.deadline >= now) continue;
+    await eventHandler.pluginChainLock.withLock(stateId, () => timeoutPluginChain(eventHandler, stateId, now));
+  }
+}
+
+async function timeoutPluginChain(eventHandler: GitHubEventHandler, stateId: string, now: number) {
+  const state = await eventHandler.pluginChainState.get(stateId);
+  if (!state || state.status !== "in_progress") {
+    // The chain ended or expired without dropping its deadline
+    await eventHandler.pluginChainDeadlines.delete(stateId);
+    return;
+  }
+
+  const timedOutPlugins = getPluginChainStepIndexes(state.pluginChain, state.currentPlugin).filter(
+    (index) => state.deadlines[index] && state.deadlines[index] < now && !state.outputs[index] && !state.skippedPlugins.includes(index)
+  );
+  if (!timedOutPlugins.length) {
+    // The deadline is outdated, the chain moved on since it was indexed
+    await trackPluginChainDeadline(eventHandler, stateId, state);
+    return;
+  }
+
+  console.log(`Plugin chain ${stateId} timed out waiting for plugins ${timedOutPlugins.join(", ")}`);
+  state.status = "timed_out";
+  await eventHandler.pluginChainState.put(stateId, state);
+  await recordPluginChainEvent(eventHandler, stateId, state, "timed_out", { details: { plugins: timedOutPlugins } });
+  const plugins = timedOutPlugins.map((index) => `- \`${getPluginName(state.pluginChain[index])}\``);
+  await commentOnPluginChainEvent(
+    eventHandler,
+    state,
+    [`The plugin chain triggered by \`${state.eventName}\` timed out because the following plugins did not report back in time:`, "", ...plugins].join("\n")
+  );
+  await releasePluginChain(eventHandler, stateId, state);
+}
@@ -5,6 +5,7 @@ import YAML, { LineCounter, Node, YAMLError } from "yaml";
 import { GitHubContext } from "../github-context";
 import { configSchema, PluginConfiguration } from "../types/plugin-configuration";
 import { CONFIG_FULL_PATH, DEV_CONFIG_FULL_PATH, getConfigurationFromRepo } from "../utils/config";
+import { getInstallationPermissions, getMissingPermissions } from "../utils/plugin-permissions";
 import { getManifest } from "../utils/plugins";
 
 function constructErrorBody(
@@ -85,6 +86,7 @@ async function createCommitComment(
 async function checkPluginConfigurations(context: GitHubContext<"push">, config: PluginConfiguration, rawData: string | null) {
   const errors: (ValueError | YAML.YAMLError)[] = [];
   const doc = rawData ? YAML.parseDocument(rawData) : null;
+  let installationPermissions: Promise<Record<string, string | undefined>> | null = null;
 
   for (let i = 0; i < config.plugins.length; ++i) {
     const { uses } = config.plugins[i];
@@ -101,6 +103,22 @@ async function checkPluginConfigurations(context: GitHubContext<"push">, config:
           errors: [],
         });
       } else {
+        const permissions = manifest["ubiquity:permissions"];
+        const installationId = context.payload.installation?.id;
+        if (permissions && installationId) {
+          installationPermissions ??= getInstallationPermissions(context, installationId);
+          const missingPermissions = getMissingPermissions(permissions, await installationPermissions);
+          if (missingPermissions.length) {
+            errors.push({
+              path: `plugins/${i}/uses/${j}`,
+              message: `The plugin asks for permissions the app is not granted: ${missingPermissions.join(", ")}`,
+              value: JSON.stringify(plugin),
+              type: 0,
+              schema: configSchema,
+              errors: [],
+            });
+          }
+        }
         const validator = new Validator(manifest.configuration, "7", false);
         const result = validator.validate(args);
 
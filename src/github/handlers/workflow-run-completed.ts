@@ -0,0 +1,66 @@
+import { GitHubContext } from "../github-context";
+import { getPluginChainStepIndexes, isGithubPlugin } from "../types/plugin-configuration";
+import { getPluginChainContext, handlePluginOutput } from "../utils/plugin-chain";
+
+const failedConclusions = ["failure", "cancelled"];
+const stateIdRegex = /[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}/i;
+
+/**
+ * Records an error as the output of an Action plugin right away when its workflow fails or gets cancelled, instead of
+ * waiting for the chain to time out. Runs are linked to their chain through the state id, that plugins put in the
+ * `run-name` of their workflow.
+ */
+export async function workflowRunCompleted(context: GitHubContext<"workflow_run.completed">) {
+  const { workflow_run: workflowRun } = context.payload;
+  if (!workflowRun.conclusion || !failedConclusions.includes(workflowRun.conclusion)) {
+    return;
+  }
+
+  const stateId = workflowRun.display_title?.match(stateIdRegex)?.[0];
+  if (!stateId) {
+    console.log(`Workflow run ${workflowRun.html_url} does not belong to a plugin chain`);
+    return;
+  }
+  await context.eventHandler.pluginChainLock.withLock(stateId, () => failWorkflowRunPlugin(context, stateId));
+}
+
+async function failWorkflowRunPlugin(context: GitHubContext<"workflow_run.completed">, stateId: string) {
+  const { workflow_run: workflowRun, repository } = context.payload;
+  const state = await context.eventHandler.pluginChainState.get(stateId);
+  if (!state) {
+    console.error("No state found for plugin chain");
+    return;
+  }
+  if (state.status !== "in_progress") {
+    console.log(`Ignoring the workflow run of a plugin chain that is ${state.status}`);
+    return;
+  }
+
+  const pluginIndex = getPluginChainStepIndexes(state.pluginChain, state.currentPlugin).find((index) => {
+    const { plugin } = state.pluginChain[index];
+    return (
+      isGithubPlugin(plugin) &&
+      plugin.owner === repository.owner.login &&
+      plugin.repo === repository.name &&
+      workflowRun.path.endsWith(`/${plugin.workflowId}`) &&
+      !state.outputs[index] &&
+      !state.skippedPlugins.includes(index)
+    );
+  });
+  if (pluginIndex === undefined) {
+    console.error("Plugin chain state does not match workflow run");
+    return;
+  }
+
+  // The run failed before the plugin could return its error, which follows the `continueOnError` and fallback rules
+  await handlePluginOutput(
+    getPluginChainContext(context.eventHandler, state),
+    state,
+    {
+      state_id: stateId,
+      output: {},
+      error: { name: "WorkflowRunError", message: `Workflow run ended with ${workflowRun.conclusion}`, metadata: { url: workflowRun.html_url } },
+    },
+    pluginIndex
+  );
+}
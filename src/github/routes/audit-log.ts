@@ -0,0 +1,26 @@
+import { GitHubEventHandler } from "../github-event-handler";
+import { verifyAdminRequest } from "../utils/admin-auth";
+import { getAuditLogIndex, readAuditLog } from "../utils/audit-log";
+import { jsonResponse } from "./json-response";
+
+const DEFAULT_LIMIT = 100;
+const MAX_LIMIT = 1000;
+
+/**
+ * `GET /audit-log?delivery=<id>`, `?repository=<owner/repo>` or `?repository=<owner/repo>&issue=<number>` returns the
+ * most recent records of the plugin chains matching the query, up to `limit`. Requests must be signed with the
+ * `ADMIN_SECRET`.
+ */
+export async function handleAuditLogRequest(request: Request, eventHandler: GitHubEventHandler, adminSecret?: string) {
+  if (!adminSecret || !(await verifyAdminRequest(request, adminSecret))) {
+    return jsonResponse({ error: "Unauthorized" }, 401);
+  }
+  const params = new URL(request.url).searchParams;
+  const index = getAuditLogIndex({ delivery: params.get("delivery"), repository: params.get("repository"), issue: params.get("issue") });
+  if (!index) {
+    return jsonResponse({ error: "A delivery or a repository is required" }, 400);
+  }
+  // A negative limit would read the log from its oldest records, past MAX_LIMIT
+  const limit = Math.min(Math.max(Math.trunc(Number(params.get("limit"))) || DEFAULT_LIMIT, 1), MAX_LIMIT);
+  return jsonResponse({ records: await readAuditLog(eventHandler, index, limit) }, 200);
+}
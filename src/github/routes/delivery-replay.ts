@@ -0,0 +1,39 @@
+import { GitHubEventHandler } from "../github-event-handler";
+import { bindHandlers } from "../handlers";
+import { verifyAdminRequest } from "../utils/admin-auth";
+import { DeliveryQueue } from "../utils/delivery-queue";
+import { jsonResponse } from "./json-response";
+
+/**
+ * `POST /deliveries/<id>/replay` runs an archived delivery through the kernel again, for instance once a broken plugin
+ * got fixed. The JSON body can set `pluginChain` to the name of the only plugin chain to run. Requests must be signed
+ * with the `ADMIN_SECRET`.
+ */
+export async function handleDeliveryReplayRequest(request: Request, eventHandler: GitHubEventHandler, queue: DeliveryQueue, adminSecret?: string) {
+  const body = await request.text();
+  if (!adminSecret || !(await verifyAdminRequest(request, adminSecret, body))) {
+    return jsonResponse({ error: "Unauthorized" }, 401);
+  }
+  const match = /^\/deliveries\/([^/]+)\/replay$/.exec(new URL(request.url).pathname);
+  if (!match) {
+    return jsonResponse({ error: "Not found" }, 404);
+  }
+  let pluginChain: unknown;
+  try {
+    pluginChain = body ? JSON.parse(body).pluginChain : undefined;
+  } catch {
+    return jsonResponse({ error: "Invalid JSON body" }, 400);
+  }
+  if (pluginChain !== undefined && typeof pluginChain !== "string") {
+    return jsonResponse({ error: "The plugin chain must be a name" }, 400);
+  }
+  const deliveryId = decodeURIComponent(match[1]);
+  const delivery = await eventHandler.deliveryArchive.get(deliveryId);
+  if (!delivery) {
+    return jsonResponse({ error: `Delivery ${deliveryId} not found` }, 404);
+  }
+  console.log(`Replaying the delivery ${deliveryId} of ${delivery.eventName}`, pluginChain ? `for the plugin chain ${pluginChain}` : "for every plugin chain");
+  bindHandlers(eventHandler, { pluginChain });
+  queue.enqueue(delivery);
+  return jsonResponse({ deliveryId, pluginChain: pluginChain ?? null }, 202);
+}
@@ -0,0 +1,3 @@
+export function jsonResponse(body: object, status: number) {
+  return new Response(JSON.stringify(body), { status, headers: { "content-type": "application/json" } });
+}
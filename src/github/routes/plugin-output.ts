@@ -0,0 +1,29 @@
+import { GitHubEventHandler } from "../github-event-handler";
+import { PluginOutputStatus, receivePluginOutput } from "../utils/plugin-output";
+import { jsonResponse } from "./json-response";
+
+const responses: Record<Exclude<PluginOutputStatus, "accepted">, [string, number]> = {
+  invalid: ["Invalid plugin output", 400],
+  unauthorized: ["The signature is missing or invalid", 401],
+  state_not_found: ["Plugin chain not found", 404],
+  not_pending: ["No plugin of the plugin chain is waiting for an output", 409],
+};
+
+/**
+ * `POST /plugin-outputs` lets plugins return their output without dispatching an event to their repository. The JSON
+ * body is the same as the `client_payload` of the `repository_dispatch`, signed with the `outputSecret` input.
+ */
+export async function handlePluginOutputRequest(request: Request, eventHandler: GitHubEventHandler) {
+  let payload: unknown;
+  try {
+    payload = await request.json();
+  } catch {
+    return jsonResponse({ error: "Invalid JSON body" }, 400);
+  }
+  const status = await receivePluginOutput(eventHandler, payload);
+  if (status === "accepted") {
+    return jsonResponse({ stateId: (payload as { state_id: string }).state_id }, 200);
+  }
+  const [error, statusCode] = responses[status];
+  return jsonResponse({ error }, statusCode);
+}
@@ -2,15 +2,38 @@ import { Type as T, type Static } from "@sinclair/typebox";
 
 export const envSchema = T.Object({
   ENVIRONMENT: T.Union([T.Literal("production"), T.Literal("development")], { default: "development" }),
-  APP_WEBHOOK_SECRET: T.String({ minLength: 1 }),
+  // Comma-separated, so several secrets are valid at the same time while rotating them
+  APP_WEBHOOK_SECRET: T.String({ pattern: "^[^,]+(,[^,]+)*$" }),
   APP_ID: T.String({ minLength: 1 }),
   APP_PRIVATE_KEY: T.String({ minLength: 1 }),
+  PLUGIN_CHAIN_STATE_TTL: T.Optional(T.String({ pattern: "^[0-9]+$" })),
+  AUDIT_LOG_TTL: T.Optional(T.String({ pattern: "^[0-9]+$" })),
+  DELIVERY_DEDUPLICATION_TTL: T.Optional(T.String({ pattern: "^[0-9]+$" })),
+  DELIVERY_RETENTION_TTL: T.Optional(T.String({ pattern: "^[0-9]+$" })),
+  ADMIN_SECRET: T.Optional(T.String({ minLength: 1 })),
+  STATE_ENCRYPTION_SECRET: T.Optional(T.String({ minLength: 32 })),
+  REQUIRE_SIGNED_OUTPUTS: T.Optional(T.Union([T.Literal("true"), T.Literal("false")])),
 });
 
-export type Env = Static<typeof envSchema> & {
+export type KernelEnv = Static<typeof envSchema>;
+
+export type Env = KernelEnv & {
   PLUGIN_CHAIN_STATE: KVNamespace;
+  PLUGIN_CHAIN_LOCK?: DurableObjectNamespace;
 };
 
+export const serverEnvSchema = T.Composite([
+  envSchema,
+  T.Object({
+    PORT: T.String({ pattern: "^[0-9]+$", default: "8787" }),
+    KV_STORE: T.Union([T.Literal("memory"), T.Literal("filesystem"), T.Literal("redis")], { default: "memory" }),
+    KV_STORE_PATH: T.String({ minLength: 1, default: ".kernel-store" }),
+    REDIS_URL: T.Optional(T.String({ minLength: 1 })),
+  }),
+]);
+
+export type ServerEnv = Static<typeof serverEnvSchema>;
+
 declare global {
   // eslint-disable-next-line @typescript-eslint/no-namespace
   namespace NodeJS {
@@ -18,6 +41,17 @@ declare global {
       APP_ID: string;
       APP_WEBHOOK_SECRET: string;
       APP_PRIVATE_KEY: string;
+      PLUGIN_CHAIN_STATE_TTL?: string;
+      AUDIT_LOG_TTL?: string;
+      DELIVERY_DEDUPLICATION_TTL?: string;
+      DELIVERY_RETENTION_TTL?: string;
+      ADMIN_SECRET?: string;
+      STATE_ENCRYPTION_SECRET?: string;
+      REQUIRE_SIGNED_OUTPUTS?: string;
+      PORT?: string;
+      KV_STORE?: string;
+      KV_STORE_PATH?: string;
+      REDIS_URL?: string;
     }
   }
 }
@@ -0,0 +1,13 @@
+/**
+ * Installation of the app on an account, remembered by the lowercase login of the account.
+ */
+export type CachedInstallation = {
+  installationId: number;
+};
+
+/**
+ * Repository whose default branch is remembered, by its lowercase `owner/repository`.
+ */
+export type CachedRepository = {
+  defaultBranch: string;
+};
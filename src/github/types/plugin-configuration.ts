@@ -54,10 +54,30 @@ export function stringLiteralUnion<T extends string[]>(values: readonly [...T]):
 
 const emitterType = stringLiteralUnion(emitterEventNames);
 
+export const dispatchErrorKinds = ["network", "timeout", "rate_limit", "server", "client"] as const;
+
+export type DispatchErrorKind = (typeof dispatchErrorKinds)[number];
+
+const retryPolicySchema = T.Object({
+  attempts: T.Optional(T.Integer({ minimum: 1, description: "Number of times the plugin is dispatched before giving up" })),
+  delay: T.Optional(T.Integer({ minimum: 0, description: "Milliseconds to wait before the first retry" })),
+  backoff: T.Optional(stringLiteralUnion(["fixed", "exponential"])),
+  timeout: T.Optional(T.Integer({ minimum: 1, description: "Seconds a single dispatch can take" })),
+  retryOn: T.Optional(T.Array(stringLiteralUnion([...dispatchErrorKinds]))),
+});
+
+export type RetryPolicy = StaticDecode<typeof retryPolicySchema>;
+
 const pluginChainSchema = T.Array(
   T.Object({
     id: T.Optional(T.String()),
     plugin: githubPluginType(),
+    if: T.Optional(T.String({ minLength: 1 })),
+    group: T.Optional(T.String({ minLength: 1 })),
+    timeout: T.Optional(T.Integer({ minimum: 1, description: "Seconds the kernel waits for the plugin output before the chain times out" })),
+    retry: T.Optional(retryPolicySchema),
+    continueOnError: T.Optional(T.Boolean({ description: "Carries on with the chain when the plugin reports an error" })),
+    fallback: T.Optional(T.Boolean({ description: "Only runs when the previous step reported an error" })),
     with: T.Record(T.String(), T.Unknown(), { default: {} }),
     runsOn: T.Array(emitterType, { default: [] }),
   }),
@@ -66,11 +86,42 @@ const pluginChainSchema = T.Array(
 
 export type PluginChain = StaticDecode<typeof pluginChainSchema>;
 
+/**
+ * Plugin chain as saved in the plugin chain states, with its plugins already decoded.
+ */
+export const decodedPluginChainSchema = T.Array(
+  T.Composite([
+    T.Omit(pluginChainSchema.items, ["plugin"]),
+    T.Object({
+      plugin: T.Union([T.String(), T.Object({ owner: T.String(), repo: T.String(), workflowId: T.String(), ref: T.Optional(T.String()) })]),
+    }),
+  ])
+);
+
+/**
+ * Returns the indexes of the plugins belonging to the same step as the plugin at `index`: consecutive plugins sharing
+ * a `group` are dispatched together, every other plugin is a step on its own.
+ */
+export function getPluginChainStepIndexes(pluginChain: PluginChain, index: number) {
+  const { group } = pluginChain[index];
+  const indexes = [index];
+  for (let i = index + 1; group !== undefined && i < pluginChain.length && pluginChain[i].group === group; ++i) {
+    indexes.push(i);
+  }
+  return indexes;
+}
+
 const handlerSchema = T.Array(
   T.Object({
     name: T.Optional(T.String()),
     uses: pluginChainSchema,
     skipBotEvents: T.Boolean({ default: true }),
+    concurrency: T.Optional(
+      T.Object({
+        group: T.String({ minLength: 1, description: "Expression reading the event, chains resolving to the same group run one at a time" }),
+        cancelInProgress: T.Optional(T.Boolean({ description: "Cancels the running chain of the group instead of waiting for it" })),
+      })
+    ),
   }),
   { default: [] }
 );
@@ -1,23 +1,32 @@
 import { EmitterWebhookEvent, EmitterWebhookEventName } from "@octokit/webhooks";
-import { StaticDecode, Type } from "@sinclair/typebox";
-import { PluginChain } from "./plugin-configuration";
+import { Static, StaticDecode, Type } from "@sinclair/typebox";
+import { decodedPluginChainSchema, dispatchErrorKinds, DispatchErrorKind, PluginChain, stringLiteralUnion } from "./plugin-configuration";
 import { GitHubEventHandler } from "../github-event-handler";
-
-export const expressionRegex = /^\s*\${{\s*(\S+)\s*}}\s*$/;
+import { pluginErrorSchema } from "../../types/plugin-error";
 
 function jsonString() {
-  return Type.Transform(Type.String())
-    .Decode((value) => JSON.parse(value) as Record<string, unknown>)
+  return Type.Transform(Type.Union([Type.String(), Type.Null()]))
+    .Decode((value) => (value === null ? {} : (JSON.parse(value) as Record<string, unknown>)))
     .Encode((value) => JSON.stringify(value));
 }
 
 export const pluginOutputSchema = Type.Object({
   state_id: Type.String(), // GitHub forces snake_case
   output: jsonString(),
+  error: Type.Optional(pluginErrorSchema),
 });
 
 export type PluginOutput = StaticDecode<typeof pluginOutputSchema>;
 
+/**
+ * Worker plugins answer the kernel request directly with their output, see `createPlugin` in the SDK.
+ */
+export const workerOutputSchema = Type.Object({
+  stateId: Type.String(),
+  output: Type.Optional(Type.Union([Type.Record(Type.String(), Type.Unknown()), Type.Null()])),
+  error: Type.Optional(pluginErrorSchema),
+});
+
 export class PluginInput<T extends EmitterWebhookEventName = EmitterWebhookEventName> {
   public eventHandler: GitHubEventHandler;
   public stateId: string;
@@ -26,6 +35,11 @@ export class PluginInput<T extends EmitterWebhookEventName = EmitterWebhookEvent
   public settings: unknown;
   public authToken: string;
   public ref: string;
+  /**
+   * Signs the output an Action plugin returns, so outputs dispatched by anyone else get rejected. Only sent to the
+   * plugins whose manifest enables `ubiquity:signed-outputs`, since workflows reject the inputs they do not declare.
+   */
+  public outputSecret?: string;
 
   constructor(
     eventHandler: GitHubEventHandler,
@@ -34,7 +48,8 @@ export class PluginInput<T extends EmitterWebhookEventName = EmitterWebhookEvent
     eventPayload: EmitterWebhookEvent<T>["payload"],
     settings: unknown,
     authToken: string,
-    ref: string
+    ref: string,
+    outputSecret?: string
   ) {
     this.eventHandler = eventHandler;
     this.stateId = stateId;
@@ -43,6 +58,22 @@ export class PluginInput<T extends EmitterWebhookEventName = EmitterWebhookEvent
     this.settings = settings;
     this.authToken = authToken;
     this.ref = ref;
+    this.outputSecret = outputSecret;
+  }
+
+  /**
+   * The event handler holds the private key of the app, so it is left out when the inputs are saved in the state.
+   */
+  public toJSON(): SerializedPluginInput {
+    return {
+      stateId: this.stateId,
+      eventName: this.eventName,
+      eventPayload: this.eventPayload,
+      settings: this.settings,
+      authToken: this.authToken,
+      ref: this.ref,
+      outputSecret: this.outputSecret,
+    };
   }
 
   public async getWorkflowInputs() {
@@ -53,6 +84,7 @@ export class PluginInput<T extends EmitterWebhookEventName = EmitterWebhookEvent
       settings: JSON.stringify(this.settings),
       authToken: this.authToken,
       ref: this.ref,
+      ...(this.outputSecret && { outputSecret: this.outputSecret }),
     };
     const signature = await this.eventHandler.signPayload(JSON.stringify(inputs));
     return {
@@ -78,13 +110,132 @@ export class PluginInput<T extends EmitterWebhookEventName = EmitterWebhookEvent
   }
 }
 
+/**
+ * Inputs of a plugin as saved in its plugin chain state, without the event handler.
+ */
+const serializedPluginInputSchema = Type.Object({
+  stateId: Type.String(),
+  eventName: Type.String(),
+  eventPayload: Type.Unknown(),
+  settings: Type.Unknown(),
+  authToken: Type.String(),
+  ref: Type.String(),
+  // Only set for the Action plugins signing their outputs
+  outputSecret: Type.Optional(Type.String()),
+});
+
+export type SerializedPluginInput = Static<typeof serializedPluginInputSchema>;
+
+export type PluginDispatchAttempt = {
+  startedAt: number;
+  duration: number;
+  error?: { kind: DispatchErrorKind; message: string };
+};
+
+export type PluginChainAuditEvent = "created" | "queued" | "dispatched" | "output_received" | "skipped" | "failed" | "timed_out" | "cancelled" | "completed";
+
+/**
+ * Append-only record of a transition of a plugin chain, see `recordPluginChainEvent`.
+ */
+export type PluginChainAuditRecord = {
+  event: PluginChainAuditEvent;
+  stateId: string;
+  deliveryId: string;
+  eventName: string;
+  repository?: string;
+  issue?: number;
+  plugin?: number;
+  details?: unknown;
+  timestamp: string;
+};
+
+/**
+ * Lock of a concurrency group, held by the running chain while the next ones wait in the queue.
+ */
+export type ConcurrencyGroupLock = {
+  stateId: string;
+  queue: string[];
+};
+
+/**
+ * Earliest deadline of the Action plugins a chain in progress waits for, see `trackPluginChainDeadline`.
+ */
+export type PluginChainDeadline = {
+  deadline: number;
+};
+
+const pluginChainStatuses = ["queued", "in_progress", "completed", "timed_out", "failed", "cancelled"] as const;
+
+export type PluginChainStatus = (typeof pluginChainStatuses)[number];
+
 export type PluginChainState<T extends EmitterWebhookEventName = EmitterWebhookEventName> = {
   eventId: string;
   eventName: T;
   eventPayload: EmitterWebhookEvent<T>["payload"];
+  status: PluginChainStatus;
+  /**
+   * Key of the concurrency group lock the chain holds or waits for.
+   */
+  concurrencyGroup?: string;
   currentPlugin: number;
   pluginChain: PluginChain;
-  inputs: PluginInput[];
+  skippedPlugins: number[];
+  /**
+   * Timestamps, in milliseconds, after which the dispatched plugins are considered timed out.
+   */
+  deadlines: number[];
+  /**
+   * Every dispatch attempt of each plugin, retries included.
+   */
+  attempts: PluginDispatchAttempt[][];
+  /**
+   * Set when the chain failed because of one of its plugins.
+   */
+  error?: { plugin: number; message: string; url?: string };
+  inputs: SerializedPluginInput[];
   outputs: PluginOutput[];
   additionalProperties?: Record<string, unknown>;
 };
+
+/**
+ * Bumped along with a new migration in `plugin-chain-state.ts` whenever the stored state changes shape.
+ */
+export const PLUGIN_CHAIN_STATE_VERSION = 1;
+
+/**
+ * Plugin chain state as written to the store, once serialized to JSON: the holes of the arrays indexed by plugin
+ * become `null`.
+ */
+export const storedPluginChainStateSchema = Type.Object({
+  version: Type.Literal(PLUGIN_CHAIN_STATE_VERSION),
+  eventId: Type.String(),
+  eventName: Type.String(),
+  eventPayload: Type.Record(Type.String(), Type.Unknown()),
+  status: stringLiteralUnion([...pluginChainStatuses]),
+  concurrencyGroup: Type.Optional(Type.String()),
+  currentPlugin: Type.Integer({ minimum: 0 }),
+  pluginChain: decodedPluginChainSchema,
+  skippedPlugins: Type.Array(Type.Integer({ minimum: 0 })),
+  deadlines: Type.Array(Type.Union([Type.Number(), Type.Null()])),
+  attempts: Type.Array(
+    Type.Union([
+      Type.Array(
+        Type.Object({
+          startedAt: Type.Number(),
+          duration: Type.Number(),
+          error: Type.Optional(Type.Object({ kind: stringLiteralUnion([...dispatchErrorKinds]), message: Type.String() })),
+        })
+      ),
+      Type.Null(),
+    ])
+  ),
+  error: Type.Optional(Type.Object({ plugin: Type.Integer({ minimum: 0 }), message: Type.String(), url: Type.Optional(Type.String()) })),
+  inputs: Type.Array(Type.Union([serializedPluginInputSchema, Type.Null()])),
+  outputs: Type.Array(
+    Type.Union([
+      Type.Object({ state_id: Type.String(), output: Type.Record(Type.String(), Type.Unknown()), error: Type.Optional(pluginErrorSchema) }),
+      Type.Null(),
+    ])
+  ),
+  additionalProperties: Type.Optional(Type.Record(Type.String(), Type.Unknown())),
+});
@@ -0,0 +1,26 @@
+import { WebhookEventName } from "@octokit/webhooks-types";
+
+/**
+ * A webhook as received by the kernel, with its raw payload so its signature can be verified.
+ */
+export type WebhookDelivery = {
+  id: string;
+  eventName: WebhookEventName;
+  payload: string;
+  signature: string;
+};
+
+/**
+ * A webhook delivery the kernel already processed, remembered by its `x-github-delivery` id.
+ */
+export type ProcessedDelivery = {
+  eventName: string;
+  processedAt: string;
+};
+
+/**
+ * Position of the last reconciliation in the webhook deliveries of the app, the newest delivery it went through.
+ */
+export type DeliveryCursor = {
+  deliveredAt: string;
+};
@@ -0,0 +1,43 @@
+/**
+ * Signed requests older than this, in seconds, are refused so they cannot be replayed.
+ */
+const MAX_SIGNATURE_AGE = 5 * 60;
+
+export const ADMIN_SIGNATURE_HEADER = "x-ubiquity-signature";
+export const ADMIN_TIMESTAMP_HEADER = "x-ubiquity-timestamp";
+
+/**
+ * Admin routes of the kernel are authenticated with an HMAC-SHA256 signature of the request, computed with the
+ * `ADMIN_SECRET` over `<timestamp>.<method>.<path and query>.<body>`, and sent as `sha256=<hex>` along with the Unix
+ * timestamp in seconds.
+ */
+export async function verifyAdminRequest(request: Request, secret: string, body = "") {
+  const timestamp = request.headers.get(ADMIN_TIMESTAMP_HEADER);
+  const signature = request.headers.get(ADMIN_SIGNATURE_HEADER);
+  if (!timestamp || !signature?.startsWith("sha256=") || Math.abs(Date.now() / 1000 - Number(timestamp)) > MAX_SIGNATURE_AGE) {
+    return false;
+  }
+  const hex = signature.slice("sha256=".length);
+  if (!/^([0-9a-f]{2})+$/i.test(hex)) {
+    return false;
+  }
+  const url = new URL(request.url);
+  const key = await importAdminKey(secret, "verify");
+  const signatureBytes = new Uint8Array(hex.match(/../g)?.map((byte) => parseInt(byte, 16)) ?? []);
+  // Verifying rather than comparing the signatures keeps the check constant-time
+  return crypto.subtle.verify("HMAC", key, signatureBytes, getSignedData(timestamp, request.method, url.pathname + url.search, body));
+}
+
+export async function signAdminRequest(secret: string, timestamp: string, method: string, path: string, body = "") {
+  const key = await importAdminKey(secret, "sign");
+  const signature = await crypto.subtle.sign("HMAC", key, getSignedData(timestamp, method, path, body));
+  return `sha256=${[...new Uint8Array(signature)].map((byte) => byte.toString(16).padStart(2, "0")).join("")}`;
+}
+
+function importAdminKey(secret: string, usage: "sign" | "verify") {
+  return crypto.subtle.importKey("raw", new TextEncoder().encode(secret), { name: "HMAC", hash: "SHA-256" }, false, [usage]);
+}
+
+function getSignedData(timestamp: string, method: string, path: string, body: string) {
+  return new TextEncoder().encode(`${timestamp}.${method.toUpperCase()}.${path}.${body}`);
+}
@@ -0,0 +1,73 @@
+import { GitHubEventHandler } from "../github-event-handler";
+import { PluginChainAuditEvent, PluginChainAuditRecord, PluginChainState } from "../types/plugin";
+import { getIssueNumber, getRepositoryFullName } from "./event-payload";
+
+/**
+ * Appends a transition of a plugin chain to the audit log. Records are never updated: each one is stored once per index
+ * (delivery, repository and issue) under a key sorting the newest records first, so each index can be listed on its own
+ * and reading the latest records stops after them. Failing to record is only logged, the chain carries on either way.
+ */
+export async function recordPluginChainEvent(
+  eventHandler: GitHubEventHandler,
+  stateId: string,
+  state: PluginChainState,
+  event: PluginChainAuditEvent,
+  options?: { plugin?: number; details?: unknown }
+) {
+  const record: PluginChainAuditRecord = {
+    event,
+    stateId,
+    deliveryId: state.eventId,
+    eventName: state.eventName,
+    repository: getRepositoryFullName(state.eventPayload),
+    issue: getIssueNumber(state.eventPayload),
+    plugin: options?.plugin,
+    details: options?.details,
+    timestamp: new Date().toISOString(),
+  };
+  const key = `${getReverseTimeKey(Date.parse(record.timestamp))}:${crypto.randomUUID()}`;
+  try {
+    await Promise.all(getAuditLogIndexes(record).map((index) => eventHandler.auditLog.put(`${index}:${key}`, record)));
+  } catch (error) {
+    console.error(`Could not record the ${event} event of the plugin chain ${stateId}`, error);
+  }
+}
+
+/**
+ * Reads the most recent records of an index, oldest first.
+ */
+export async function readAuditLog(eventHandler: GitHubEventHandler, index: string, limit: number) {
+  const ids = await eventHandler.auditLog.list(`${index}:`, limit);
+  const records = await Promise.all(ids.reverse().map((id) => eventHandler.auditLog.get(id)));
+  return records.filter((record): record is PluginChainAuditRecord => record !== null);
+}
+
+/**
+ * Returns the index matching a query, the most specific one first: a delivery, an issue of a repository or a whole
+ * repository.
+ */
+export function getAuditLogIndex({ delivery, repository, issue }: { delivery?: string | null; repository?: string | null; issue?: string | number | null }) {
+  if (delivery) {
+    return `delivery:${delivery}`;
+  } else if (repository && issue) {
+    return `issue:${repository}#${issue}`;
+  } else if (repository) {
+    return `repository:${repository}`;
+  }
+  return null;
+}
+
+/**
+ * Zero-padded milliseconds left until the largest safe timestamp, which sort the other way around than time does.
+ */
+function getReverseTimeKey(time: number) {
+  return String(Number.MAX_SAFE_INTEGER - time).padStart(String(Number.MAX_SAFE_INTEGER).length, "0");
+}
+
+function getAuditLogIndexes({ deliveryId, repository, issue }: PluginChainAuditRecord) {
+  return [
+    getAuditLogIndex({ delivery: deliveryId }),
+    getAuditLogIndex({ repository }),
+    issue !== undefined ? getAuditLogIndex({ repository, issue }) : null,
+  ].filter((index): index is string => index !== null);
+}
@@ -0,0 +1,132 @@
+import { GitHubEventHandler } from "../github-event-handler";
+import { PluginChainState } from "../types/plugin";
+import { PluginConfiguration } from "../types/plugin-configuration";
+import { recordPluginChainEvent } from "./audit-log";
+import { getRepositoryFullName } from "./event-payload";
+import { untrackPluginChainDeadline } from "./plugin-chain-deadlines";
+import { evaluateTemplate } from "./expressions";
+
+type Concurrency = NonNullable<PluginConfiguration["plugins"][0]["concurrency"]>;
+
+/**
+ * Chains resolving to the same concurrency group within a repository run one at a time: a new chain either cancels the
+ * running one, or waits in the queue of the group. Returns whether the chain can be dispatched right away, queued
+ * chains get dispatched by `releaseConcurrencyGroup` once their turn comes.
+ */
+export async function acquireConcurrencyGroup(eventHandler: GitHubEventHandler, stateId: string, state: PluginChainState, concurrency: Concurrency) {
+  const group = getConcurrencyGroup(state, concurrency.group);
+  if (!group) {
+    console.log(`Concurrency group ${concurrency.group} is empty, the plugin chain runs on its own`);
+    return true;
+  }
+  state.concurrencyGroup = group;
+
+  const { isAcquired, cancelledStateId } = await eventHandler.pluginChainLock.withLock(getGroupLockId(group), () =>
+    updateConcurrencyGroup(eventHandler, group, stateId, state, concurrency)
+  );
+  // The group already belongs to the new chain, so the cancelled one cannot hand it over once it stops
+  if (cancelledStateId) {
+    await eventHandler.pluginChainLock.withLock(cancelledStateId, () => cancelPluginChain(eventHandler, cancelledStateId, stateId));
+  }
+  return isAcquired;
+}
+
+async function updateConcurrencyGroup(eventHandler: GitHubEventHandler, group: string, stateId: string, state: PluginChainState, concurrency: Concurrency) {
+  const lock = await eventHandler.concurrencyGroups.get(group);
+  const runningState = lock ? await eventHandler.pluginChainState.get(lock.stateId) : null;
+  // A lock whose chain is over or expired is stale, the chain failed to release it
+  if (!lock || runningState?.status !== "in_progress") {
+    await takeConcurrencyGroup(eventHandler, group, stateId, state, lock?.queue ?? []);
+    return { isAcquired: true };
+  }
+
+  if (concurrency.cancelInProgress) {
+    console.log(`Cancelling the plugin chain ${lock.stateId} of the concurrency group ${group}`);
+    await takeConcurrencyGroup(eventHandler, group, stateId, state, lock.queue);
+    return { isAcquired: true, cancelledStateId: lock.stateId };
+  }
+
+  console.log(`Queuing the plugin chain ${stateId} behind ${lock.stateId} in the concurrency group ${group}`);
+  state.status = "queued";
+  await eventHandler.pluginChainState.put(stateId, state);
+  lock.queue.push(stateId);
+  await eventHandler.concurrencyGroups.put(group, lock);
+  await recordPluginChainEvent(eventHandler, stateId, state, "queued", { details: { group, behind: lock.stateId } });
+  return { isAcquired: false };
+}
+
+/**
+ * Releases the concurrency group held by a chain that is over, handing it to the next queued chain that is returned
+ * so it can be dispatched.
+ */
+export async function releaseConcurrencyGroup(eventHandler: GitHubEventHandler, stateId: string, state: PluginChainState) {
+  const group = state.concurrencyGroup;
+  if (!group) return null;
+
+  return eventHandler.pluginChainLock.withLock(getGroupLockId(group), async () => {
+    const lock = await eventHandler.concurrencyGroups.get(group);
+    if (!lock || lock.stateId !== stateId) return null;
+
+    for (let nextStateId = lock.queue.shift(); nextStateId; nextStateId = lock.queue.shift()) {
+      const nextState = await eventHandler.pluginChainLock.withLock(nextStateId, () => startQueuedPluginChain(eventHandler, nextStateId));
+      if (nextState) {
+        await eventHandler.concurrencyGroups.put(group, { stateId: nextStateId, queue: lock.queue });
+        return { stateId: nextStateId, state: nextState };
+      }
+    }
+    await eventHandler.concurrencyGroups.delete(group);
+    return null;
+  });
+}
+
+/**
+ * Queued chains that expired or got cancelled in the meantime are skipped.
+ */
+async function startQueuedPluginChain(eventHandler: GitHubEventHandler, stateId: string) {
+  const state = await eventHandler.pluginChainState.get(stateId);
+  if (state?.status !== "queued") {
+    return null;
+  }
+  state.status = "in_progress";
+  await eventHandler.pluginChainState.put(stateId, state);
+  return state;
+}
+
+/**
+ * The running chain may have ended while waiting for its lock, in which case it is left as is.
+ */
+async function cancelPluginChain(eventHandler: GitHubEventHandler, runningStateId: string, stateId: string) {
+  const runningState = await eventHandler.pluginChainState.get(runningStateId);
+  if (runningState?.status !== "in_progress") {
+    return;
+  }
+  runningState.status = "cancelled";
+  await eventHandler.pluginChainState.put(runningStateId, runningState);
+  await untrackPluginChainDeadline(eventHandler, runningStateId, runningState);
+  await recordPluginChainEvent(eventHandler, runningStateId, runningState, "cancelled", { details: { cancelledBy: stateId } });
+}
+
+/**
+ * The state is saved along with the lock, so the lock never points at a chain that cannot be found yet.
+ */
+async function takeConcurrencyGroup(eventHandler: GitHubEventHandler, group: string, stateId: string, state: PluginChainState, queue: string[]) {
+  await eventHandler.pluginChainState.put(stateId, state);
+  await eventHandler.concurrencyGroups.put(group, { stateId, queue });
+}
+
+/**
+ * Concurrency groups share the lock of the plugin chain states, under their own prefix.
+ */
+function getGroupLockId(group: string) {
+  return `concurrency-group:${group}`;
+}
+
+function getConcurrencyGroup(state: PluginChainState, template: string) {
+  const value = evaluateTemplate(template, { event: state.eventPayload });
+  if (value === null || value === undefined || value === "") {
+    return null;
+  }
+  const group = typeof value === "object" ? JSON.stringify(value) : String(value);
+  const repository = getRepositoryFullName(state.eventPayload);
+  return repository ? `${repository}:${group}` : group;
+}
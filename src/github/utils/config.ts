@@ -1,8 +1,8 @@
 import { TransformDecodeCheckError, Value, ValueError } from "@sinclair/typebox/value";
 import YAML, { YAMLError } from "yaml";
 import { GitHubContext } from "../github-context";
-import { expressionRegex } from "../types/plugin";
-import { configSchema, configSchemaValidator, PluginConfiguration } from "../types/plugin-configuration";
+import { configSchema, configSchemaValidator, getPluginChainStepIndexes, isGithubPlugin, PluginConfiguration } from "../types/plugin-configuration";
+import { checkTemplate, conditionToTemplate, reservedIds } from "./expressions";
 import { getManifest } from "./plugins";
 
 export const CONFIG_FULL_PATH = ".github/.ubiquity-os.config.yml";
@@ -87,6 +87,14 @@ export async function getConfig(context: GitHubContext): Promise<PluginConfigura
 function checkPluginChains(config: PluginConfiguration) {
   for (const plugin of config.plugins) {
     const allIds = checkPluginChainUniqueIds(plugin);
+    for (const group of checkPluginChainGroups(plugin, allIds)) {
+      allIds.add(group);
+    }
+    checkPluginChainFallbacks(plugin);
+    if (plugin.concurrency) {
+      // Concurrency groups are resolved before any plugin is called, so they can only read the event
+      checkTemplate(plugin.concurrency.group, new Set(), new Set());
+    }
     checkPluginChainExpressions(plugin, allIds);
   }
 }
@@ -96,6 +104,9 @@ function checkPluginChainUniqueIds(plugin: PluginConfiguration["plugins"][0]) {
   for (const use of plugin.uses) {
     if (!use.id) continue;
 
+    if (reservedIds.includes(use.id)) {
+      throw new Error(`Id ${use.id} is reserved and cannot be used in a plugin chain`);
+    }
     if (allIds.has(use.id)) {
       throw new Error(`Duplicate id ${use.id} in plugin chain`);
     }
@@ -104,37 +115,84 @@ function checkPluginChainUniqueIds(plugin: PluginConfiguration["plugins"][0]) {
   return allIds;
 }
 
+/**
+ * Groups are referenced like plugin ids in expressions, so their names must be unique as well. Actions return their
+ * output through a repository dispatch, so a group cannot run the same Action repository twice.
+ */
+function checkPluginChainGroups(plugin: PluginConfiguration["plugins"][0], allIds: Set<string>) {
+  const groups = new Set<string>();
+  for (let i = 0; i < plugin.uses.length; ++i) {
+    const { group } = plugin.uses[i];
+    if (group === undefined || plugin.uses[i - 1]?.group === group) continue;
+
+    if (reservedIds.includes(group) || allIds.has(group)) {
+      throw new Error(`Group ${group} cannot use the same name as a plugin id`);
+    }
+    if (groups.has(group)) {
+      throw new Error(`Group ${group} must be made of consecutive plugins`);
+    }
+    groups.add(group);
+
+    const repositories = new Set<string>();
+    for (const index of getPluginChainStepIndexes(plugin.uses, i)) {
+      const member = plugin.uses[index].plugin;
+      if (!isGithubPlugin(member)) continue;
+      const repository = `${member.owner}/${member.repo}`;
+      if (repositories.has(repository)) {
+        throw new Error(`Group ${group} cannot call the Action plugin ${repository} more than once`);
+      }
+      repositories.add(repository);
+    }
+  }
+  return groups;
+}
+
+/**
+ * A fallback step only runs when the step before it fails, so it cannot come first and stands on its own.
+ */
+function checkPluginChainFallbacks(plugin: PluginConfiguration["plugins"][0]) {
+  plugin.uses.forEach(({ fallback, group }, i) => {
+    if (!fallback) return;
+
+    if (i === 0) {
+      throw new Error("The first plugin of a chain cannot be a fallback");
+    }
+    if (group !== undefined) {
+      throw new Error(`Fallback plugins cannot be part of the group ${group}`);
+    }
+  });
+}
+
+/**
+ * Plugins can only refer to the outputs of the previous steps, so the plugins of a group cannot refer to each other.
+ */
 function checkPluginChainExpressions(plugin: PluginConfiguration["plugins"][0], allIds: Set<string>) {
   const calledIds = new Set<string>();
-  for (const use of plugin.uses) {
-    if (!use.id) continue;
-    for (const key of Object.keys(use.with)) {
-      const value = use.with[key];
-      if (typeof value !== "string") continue;
-      checkExpression(value, allIds, calledIds);
+  for (let i = 0; i < plugin.uses.length; ) {
+    const step = getPluginChainStepIndexes(plugin.uses, i);
+    for (const index of step) {
+      const use = plugin.uses[index];
+      if (use.if !== undefined) {
+        checkTemplate(conditionToTemplate(use.if), allIds, calledIds);
+      }
+      checkExpressions(use.with, allIds, calledIds);
+    }
+    for (const index of step) {
+      const { id, group } = plugin.uses[index];
+      if (id) calledIds.add(id);
+      if (group) calledIds.add(group);
     }
-    calledIds.add(use.id);
+    i += step.length;
   }
 }
 
-function checkExpression(value: string, allIds: Set<string>, calledIds: Set<string>) {
-  const matches = value.match(expressionRegex);
-  if (!matches) {
-    return;
-  }
-  const parts = matches[1].split(".");
-  if (parts.length !== 3) {
-    throw new Error(`Invalid expression: ${value}`);
-  }
-  const id = parts[0];
-  if (!allIds.has(id)) {
-    throw new Error(`Expression ${value} refers to non-existent id ${id}`);
-  }
-  if (!calledIds.has(id)) {
-    throw new Error(`Expression ${value} refers to plugin id ${id} before it is called`);
-  }
-  if (parts[1] !== "output") {
-    throw new Error(`Invalid expression: ${value}`);
+function checkExpressions(value: unknown, allIds: Set<string>, calledIds: Set<string>) {
+  if (typeof value === "string") {
+    checkTemplate(value, allIds, calledIds);
+  } else if (typeof value === "object" && value !== null) {
+    for (const item of Object.values(value)) {
+      checkExpressions(item, allIds, calledIds);
+    }
   }
 }
 
@@ -0,0 +1,61 @@
+import { EmitterWebhookEvent } from "@octokit/webhooks";
+import { GitHubEventHandler } from "../github-event-handler";
+import { WebhookDelivery } from "../types/webhook-delivery";
+import { verifyAdminRequest } from "./admin-auth";
+
+/**
+ * Logs which webhook secret verified the delivery, so a rotated secret can be retired once no delivery matches it.
+ */
+export async function verifyDelivery(eventHandler: GitHubEventHandler, delivery: WebhookDelivery) {
+  const secretIndex = await eventHandler.verifyWebhookSignature(delivery.payload, delivery.signature);
+  if (secretIndex === -1) {
+    return false;
+  }
+  console.log(`Delivery ${delivery.id} verified with the webhook secret #${secretIndex + 1}`);
+  return true;
+}
+
+/**
+ * GitHub redelivers webhooks, so each delivery id is remembered once processed and its redeliveries are skipped instead
+ * of dispatching the same plugins twice. A redelivery signed with the `ADMIN_SECRET` is a deliberate replay, and gets
+ * processed again.
+ */
+export async function isDuplicateDelivery(eventHandler: GitHubEventHandler, request: Request, delivery: WebhookDelivery, adminSecret?: string) {
+  if (!(await eventHandler.deliveries.get(delivery.id))) {
+    return false;
+  }
+  if (adminSecret && (await verifyAdminRequest(request, adminSecret, delivery.payload))) {
+    console.log(`Replaying the delivery ${delivery.id}`);
+    return false;
+  }
+  console.log(`Skipping the delivery ${delivery.id} of ${delivery.eventName} that was already processed`);
+  return true;
+}
+
+/**
+ * Runs the handlers bound to the event of a verified delivery. Errors are only logged since the webhook was already
+ * acknowledged, and the delivery is only remembered once processed so it can still be redelivered otherwise.
+ */
+export async function processDelivery(eventHandler: GitHubEventHandler, delivery: WebhookDelivery) {
+  try {
+    await eventHandler.webhooks.receive({ id: delivery.id, name: delivery.eventName, payload: JSON.parse(delivery.payload) } as EmitterWebhookEvent);
+    await markDeliveryProcessed(eventHandler, delivery);
+  } catch (error) {
+    console.error(`An error occurred while processing the delivery ${delivery.id}`, error);
+  }
+}
+
+/**
+ * Keeps the raw verified delivery around, so it can be replayed once a broken plugin got fixed.
+ */
+export async function archiveDelivery(eventHandler: GitHubEventHandler, delivery: WebhookDelivery) {
+  try {
+    await eventHandler.deliveryArchive.put(delivery.id, delivery);
+  } catch (error) {
+    console.error(`Could not archive the delivery ${delivery.id}`, error);
+  }
+}
+
+export async function markDeliveryProcessed(eventHandler: GitHubEventHandler, delivery: WebhookDelivery) {
+  await eventHandler.deliveries.put(delivery.id, { eventName: delivery.eventName, processedAt: new Date().toISOString() });
+}
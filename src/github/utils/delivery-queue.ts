@@ -0,0 +1,53 @@
+import { WebhookDelivery } from "../types/webhook-delivery";
+
+export type DeliveryProcessor = (delivery: WebhookDelivery) => Promise<void>;
+
+/**
+ * DeliveryQueue hands the webhooks over to be processed once they are acknowledged, so GitHub does not wait for the
+ * plugins to be dispatched.
+ */
+export interface DeliveryQueue {
+  enqueue(delivery: WebhookDelivery): void;
+}
+
+/**
+ * Processes the deliveries in the background of the Worker request that acknowledged them, which Cloudflare keeps alive
+ * until they are done.
+ */
+export class WaitUntilQueue implements DeliveryQueue {
+  private _ctx: ExecutionContext;
+  private _process: DeliveryProcessor;
+
+  constructor(ctx: ExecutionContext, process: DeliveryProcessor) {
+    this._ctx = ctx;
+    this._process = process;
+  }
+
+  enqueue(delivery: WebhookDelivery) {
+    this._ctx.waitUntil(this._process(delivery));
+  }
+}
+
+/**
+ * Processes the deliveries within the current process, for tests and local development. `drain` resolves once every
+ * enqueued delivery is processed.
+ */
+export class InProcessQueue implements DeliveryQueue {
+  private _process: DeliveryProcessor;
+  private _pending = new Set<Promise<void>>();
+
+  constructor(process: DeliveryProcessor) {
+    this._process = process;
+  }
+
+  enqueue(delivery: WebhookDelivery) {
+    const promise = this._process(delivery).finally(() => this._pending.delete(promise));
+    this._pending.add(promise);
+  }
+
+  async drain() {
+    while (this._pending.size) {
+      await Promise.all(this._pending);
+    }
+  }
+}
@@ -0,0 +1,89 @@
+import { KvStore } from "./kv-store";
+
+/**
+ * Value written by `EncryptedKv`, the base64 AES-GCM ciphertext of the JSON value along with its initialization vector.
+ */
+export type EncryptedValue = {
+  iv: string;
+  ciphertext: string;
+};
+
+const IV_LENGTH = 12;
+
+/**
+ * EncryptedKv encrypts the values of another store with AES-256-GCM, using a key derived with HKDF from a kernel
+ * secret, so what reaches the store never holds tokens or event payloads in plaintext. The id of each value is
+ * authenticated along with it, so a value copied under another id fails to decrypt.
+ *
+ * @template T - The type of the values being stored.
+ */
+export class EncryptedKv<T> implements KvStore<T> {
+  private _store: KvStore<EncryptedValue>;
+  private _key: Promise<CryptoKey>;
+
+  constructor(store: KvStore<EncryptedValue>, secret: string) {
+    this._store = store;
+    this._key = deriveKey(secret);
+  }
+
+  async get(id: string): Promise<T | null> {
+    const value = await this._store.get(id);
+    if (!value) {
+      return null;
+    }
+    try {
+      const plaintext = await crypto.subtle.decrypt(
+        { name: "AES-GCM", iv: fromBase64(value.iv), additionalData: new TextEncoder().encode(id) },
+        await this._key,
+        fromBase64(value.ciphertext)
+      );
+      return JSON.parse(new TextDecoder().decode(plaintext));
+    } catch (error) {
+      // Values written in plaintext or with another secret are unreadable, and handled as missing
+      console.warn(`Could not decrypt the value of ${id}`, error);
+      return null;
+    }
+  }
+
+  async put(id: string, state: T): Promise<void> {
+    const iv = crypto.getRandomValues(new Uint8Array(IV_LENGTH));
+    const ciphertext = await crypto.subtle.encrypt(
+      { name: "AES-GCM", iv, additionalData: new TextEncoder().encode(id) },
+      await this._key,
+      new TextEncoder().encode(JSON.stringify(state))
+    );
+    await this._store.put(id, { iv: toBase64(iv), ciphertext: toBase64(new Uint8Array(ciphertext)) });
+  }
+
+  delete(id: string): Promise<void> {
+    return this._store.delete(id);
+  }
+
+  list(prefix?: string, limit?: number): Promise<string[]> {
+    return this._store.list(prefix, limit);
+  }
+}
+
+async function deriveKey(secret: string) {
+  const material = await crypto.subtle.importKey("raw", new TextEncoder().encode(secret), "HKDF", false, ["deriveKey"]);
+  return crypto.subtle.deriveKey(
+    { name: "HKDF", hash: "SHA-256", salt: new TextEncoder().encode("ubiquity-os-kernel"), info: new TextEncoder().encode("plugin-chain-state") },
+    material,
+    { name: "AES-GCM", length: 256 },
+    false,
+    ["encrypt", "decrypt"]
+  );
+}
+
+function toBase64(bytes: Uint8Array) {
+  let binary = "";
+  // Spreading a whole event payload into String.fromCharCode would exceed the maximum number of arguments
+  for (let i = 0; i < bytes.length; i += 0x8000) {
+    binary += String.fromCharCode(...bytes.subarray(i, i + 0x8000));
+  }
+  return btoa(binary);
+}
+
+function fromBase64(value: string) {
+  return Uint8Array.from(atob(value), (c) => c.charCodeAt(0));
+}
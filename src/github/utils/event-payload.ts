@@ -0,0 +1,19 @@
+import { EmitterWebhookEvent } from "@octokit/webhooks";
+
+type EventPayload = EmitterWebhookEvent["payload"];
+
+/**
+ * Returns the number of the issue or pull request the event happened on, if any.
+ */
+export function getIssueNumber(payload: EventPayload) {
+  if ("issue" in payload && payload.issue) {
+    return payload.issue.number;
+  } else if ("pull_request" in payload && payload.pull_request) {
+    return payload.pull_request.number;
+  }
+  return undefined;
+}
+
+export function getRepositoryFullName(payload: EventPayload) {
+  return "repository" in payload && payload.repository ? payload.repository.full_name : undefined;
+}
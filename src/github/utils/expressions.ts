@@ -0,0 +1,326 @@
+type Token = {
+  type: "identifier" | "number" | "string" | "operator";
+  value: string;
+};
+
+type BinaryOperator = "==" | "!=" | "<" | "<=" | ">" | ">=" | "&&" | "||";
+
+export type ExpressionNode =
+  | { type: "literal"; value: unknown }
+  | { type: "path"; path: string[] }
+  | { type: "unary"; operator: "!"; argument: ExpressionNode }
+  | { type: "binary"; operator: BinaryOperator; left: ExpressionNode; right: ExpressionNode };
+
+const operators = ["==", "!=", "<=", ">=", "&&", "||", "<", ">", "!", "(", ")", "[", "]", "."];
+const identifierRegex = /^[a-zA-Z_][a-zA-Z0-9_-]*/;
+const numberRegex = /^[0-9]+(?:\.[0-9]+)?/;
+const integerRegex = /^[0-9]+/;
+const templateRegex = /\${{(.*?)}}/g;
+const keywords: Record<string, unknown> = { true: true, false: false, null: null };
+
+/**
+ * Contexts available at the root of an expression, besides the plugin ids.
+ */
+const EVENT_CONTEXT = "event";
+const STEPS_CONTEXT = "steps";
+export const reservedIds = [EVENT_CONTEXT, STEPS_CONTEXT];
+
+function tokenize(expression: string): Token[] {
+  const tokens: Token[] = [];
+  let position = 0;
+
+  while (position < expression.length) {
+    const rest = expression.slice(position);
+    const whitespace = rest.match(/^\s+/);
+    if (whitespace) {
+      position += whitespace[0].length;
+      continue;
+    }
+    if (rest[0] === "'" || rest[0] === '"') {
+      const end = rest.indexOf(rest[0], 1);
+      if (end === -1) {
+        throw new Error(`Unterminated string at position ${position} in expression: ${expression}`);
+      }
+      tokens.push({ type: "string", value: rest.slice(1, end) });
+      position += end + 1;
+      continue;
+    }
+    // Numbers following a dot are property names, e.g. `event.issue.labels.0.name`
+    const isPropertyName = tokens[tokens.length - 1]?.value === ".";
+    const number = rest.match(isPropertyName ? integerRegex : numberRegex);
+    if (number) {
+      tokens.push({ type: "number", value: number[0] });
+      position += number[0].length;
+      continue;
+    }
+    const operator = operators.find((o) => rest.startsWith(o));
+    if (operator) {
+      tokens.push({ type: "operator", value: operator });
+      position += operator.length;
+      continue;
+    }
+    const identifier = rest.match(identifierRegex);
+    if (identifier) {
+      tokens.push({ type: "identifier", value: identifier[0] });
+      position += identifier[0].length;
+      continue;
+    }
+    throw new Error(`Unexpected character '${rest[0]}' at position ${position} in expression: ${expression}`);
+  }
+  return tokens;
+}
+
+/**
+ * Recursive descent parser, from the lowest to the highest precedence: `||`, `&&`, `==` and `!=`, comparisons, `!`,
+ * then values and property accesses.
+ */
+class ExpressionParser {
+  private static readonly _precedence: BinaryOperator[][] = [["||"], ["&&"], ["==", "!="], ["<", "<=", ">", ">="]];
+  private readonly _expression: string;
+  private readonly _tokens: Token[];
+  private _position = 0;
+
+  constructor(expression: string) {
+    this._expression = expression;
+    this._tokens = tokenize(expression);
+  }
+
+  parse(): ExpressionNode {
+    const node = this._parseBinary(0);
+    if (this._position < this._tokens.length) {
+      throw new Error(`Unexpected token '${this._tokens[this._position].value}' in expression: ${this._expression}`);
+    }
+    return node;
+  }
+
+  private _parseBinary(level: number): ExpressionNode {
+    if (level >= ExpressionParser._precedence.length) {
+      return this._parseUnary();
+    }
+    let left = this._parseBinary(level + 1);
+    for (;;) {
+      const operator = ExpressionParser._precedence[level].find((o) => this._consumeOperator(o));
+      if (!operator) {
+        return left;
+      }
+      left = { type: "binary", operator, left, right: this._parseBinary(level + 1) };
+    }
+  }
+
+  private _parseUnary(): ExpressionNode {
+    if (this._consumeOperator("!")) {
+      return { type: "unary", operator: "!", argument: this._parseUnary() };
+    }
+    return this._parseValue();
+  }
+
+  private _parseValue(): ExpressionNode {
+    const token = this._nextToken();
+    if (token.type === "operator" && token.value === "(") {
+      const node = this._parseBinary(0);
+      this._expectOperator(")");
+      return node;
+    }
+    if (token.type === "string") {
+      return { type: "literal", value: token.value };
+    }
+    if (token.type === "number") {
+      return { type: "literal", value: Number(token.value) };
+    }
+    if (token.type === "identifier") {
+      if (token.value in keywords) {
+        return { type: "literal", value: keywords[token.value] };
+      }
+      return { type: "path", path: [token.value, ...this._parsePropertyAccesses()] };
+    }
+    throw new Error(`Unexpected token '${token.value}' in expression: ${this._expression}`);
+  }
+
+  /**
+   * Property accesses are written either `.name` or `['name']`.
+   */
+  private _parsePropertyAccesses() {
+    const path: string[] = [];
+    for (;;) {
+      if (this._consumeOperator(".")) {
+        const segment = this._nextToken();
+        if (segment.type !== "identifier" && segment.type !== "number") {
+          throw new Error(`Invalid property access in expression: ${this._expression}`);
+        }
+        path.push(segment.value);
+      } else if (this._consumeOperator("[")) {
+        const segment = this._nextToken();
+        if (segment.type !== "string" && segment.type !== "number") {
+          throw new Error(`Only string and number literals can be used between brackets in expression: ${this._expression}`);
+        }
+        path.push(segment.value);
+        this._expectOperator("]");
+      } else {
+        return path;
+      }
+    }
+  }
+
+  private _nextToken() {
+    const token = this._tokens[this._position++];
+    if (!token) {
+      throw new Error(`Unexpected end of expression: ${this._expression}`);
+    }
+    return token;
+  }
+
+  private _expectOperator(operator: string) {
+    if (!this._consumeOperator(operator)) {
+      throw new Error(`Missing '${operator}' in expression: ${this._expression}`);
+    }
+  }
+
+  private _consumeOperator<T extends string>(operator: T): T | null {
+    const token = this._tokens[this._position];
+    if (token?.type === "operator" && token.value === operator) {
+      this._position++;
+      return operator;
+    }
+    return null;
+  }
+}
+
+export function parseExpression(expression: string): ExpressionNode {
+  return new ExpressionParser(expression).parse();
+}
+
+/**
+ * Lists every property path the expression reads, e.g. `["event", "issue", "number"]`.
+ */
+export function getExpressionPaths(node: ExpressionNode): string[][] {
+  switch (node.type) {
+    case "path":
+      return [node.path];
+    case "unary":
+      return getExpressionPaths(node.argument);
+    case "binary":
+      return [...getExpressionPaths(node.left), ...getExpressionPaths(node.right)];
+    default:
+      return [];
+  }
+}
+
+/**
+ * Evaluates the expression against the given scope. Paths that cannot be resolved evaluate to `undefined`.
+ */
+export function evaluateExpression(node: ExpressionNode, scope: Record<string, unknown>): unknown {
+  switch (node.type) {
+    case "literal":
+      return node.value;
+    case "path":
+      return node.path.reduce<unknown>(
+        (value, key) => (typeof value === "object" && value !== null ? (value as Record<string, unknown>)[key] : undefined),
+        scope
+      );
+    case "unary":
+      return !evaluateExpression(node.argument, scope);
+    case "binary":
+      return evaluateBinaryExpression(node, scope);
+  }
+}
+
+function evaluateBinaryExpression(node: Extract<ExpressionNode, { type: "binary" }>, scope: Record<string, unknown>) {
+  const left = evaluateExpression(node.left, scope);
+  if (node.operator === "&&") {
+    return left ? evaluateExpression(node.right, scope) : left;
+  }
+  if (node.operator === "||") {
+    return left || evaluateExpression(node.right, scope);
+  }
+  const right = evaluateExpression(node.right, scope);
+  switch (node.operator) {
+    case "==":
+      return left === right;
+    case "!=":
+      return left !== right;
+    default:
+      return compareValues(node.operator, left, right);
+  }
+}
+
+function compareValues(operator: "<" | "<=" | ">" | ">=", left: unknown, right: unknown) {
+  const isComparable = (typeof left === "number" && typeof right === "number") || (typeof left === "string" && typeof right === "string");
+  if (!isComparable) {
+    return false;
+  }
+  switch (operator) {
+    case "<":
+      return left < right;
+    case "<=":
+      return left <= right;
+    case ">":
+      return left > right;
+    case ">=":
+      return left >= right;
+  }
+}
+
+/**
+ * Ensures the expression only reads the event payload with `event.*`, or the outputs and errors of the plugins called
+ * before it with `steps.<id>.output.*`, `steps.<id>.error.*` or their short forms without `steps`.
+ */
+export function checkExpressionReferences(node: ExpressionNode, allIds: Set<string>, calledIds: Set<string>, expression: string) {
+  for (const path of getExpressionPaths(node)) {
+    if (path[0] === EVENT_CONTEXT) continue;
+
+    const [id, property] = path[0] === STEPS_CONTEXT ? path.slice(1) : path;
+    if (id === undefined) {
+      throw new Error(`Expression ${expression} must refer to a plugin id`);
+    }
+    if (!allIds.has(id)) {
+      throw new Error(`Expression ${expression} refers to non-existent id ${id}`);
+    }
+    if (!calledIds.has(id)) {
+      throw new Error(`Expression ${expression} refers to plugin id ${id} before it is called`);
+    }
+    if (property !== "output" && property !== "error") {
+      throw new Error(`Invalid expression: ${expression}`);
+    }
+  }
+}
+
+/**
+ * Parses and checks every `${{ }}` expression contained in the value.
+ */
+export function checkTemplate(value: string, allIds: Set<string>, calledIds: Set<string>) {
+  for (const [, expression] of value.matchAll(templateRegex)) {
+    let node: ExpressionNode;
+    try {
+      node = parseExpression(expression);
+    } catch (error) {
+      throw new Error(`Invalid expression ${value}: ${error instanceof Error ? error.message : error}`);
+    }
+    checkExpressionReferences(node, allIds, calledIds, value);
+  }
+}
+
+/**
+ * Replaces the `${{ }}` expressions contained in the value. A value made of a single expression keeps the type of the
+ * result, otherwise every result is interpolated within the string.
+ */
+export function evaluateTemplate(value: string, scope: Record<string, unknown>): unknown {
+  const matches = [...value.matchAll(templateRegex)];
+  if (matches.length === 1 && matches[0][0] === value.trim()) {
+    return evaluateExpression(parseExpression(matches[0][1]), scope);
+  }
+  return value.replace(templateRegex, (match, expression: string) => stringifyValue(evaluateExpression(parseExpression(expression), scope)));
+}
+
+function stringifyValue(value: unknown) {
+  if (value === undefined || value === null) {
+    return "";
+  }
+  return typeof value === "object" ? JSON.stringify(value) : String(value);
+}
+
+/**
+ * Conditions can be written with or without the `${{ }}` delimiters.
+ */
+export function conditionToTemplate(condition: string) {
+  return condition.includes("${{") ? condition : `\${{ ${condition} }}`;
+}
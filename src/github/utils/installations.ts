@@ -0,0 +1,62 @@
+import { customOctokit } from "../github-client";
+import { GitHubContext } from "../github-context";
+import { GitHubEventHandler } from "../github-event-handler";
+
+/**
+ * Resolves the installation of the app on the account owning `repository`, from the cache when it was looked up
+ * before. An account has a single installation, so the lookup is cached for all its repositories.
+ */
+export async function getInstallationId(context: GitHubContext, owner: string, repository: string): Promise<number> {
+  const { installations } = context.eventHandler;
+  const cached = await installations.get(getOwnerKey(owner));
+  if (cached) {
+    return cached.installationId;
+  }
+  const octokit = context.eventHandler.getUnauthenticatedOctokit();
+  const installation = await octokit.rest.apps.getRepoInstallation({ owner, repo: repository }).catch((error) => {
+    if (typeof error === "object" && error?.status === 404) {
+      return null;
+    }
+    throw error;
+  });
+  if (!installation) {
+    throw new Error(`No installation found for owner: ${owner}`);
+  }
+  await installations.put(getOwnerKey(owner), { installationId: installation.data.id });
+  return installation.data.id;
+}
+
+export async function getInstallationOctokit(context: GitHubContext, owner: string, repository: string): Promise<InstanceType<typeof customOctokit>> {
+  return context.eventHandler.getAuthenticatedOctokit(await getInstallationId(context, owner, repository));
+}
+
+export async function getDefaultBranchFromCache(eventHandler: GitHubEventHandler, owner: string, repository: string) {
+  const cached = await eventHandler.defaultBranches.get(getRepositoryKey(owner, repository));
+  return cached?.defaultBranch ?? null;
+}
+
+export async function cacheDefaultBranch(eventHandler: GitHubEventHandler, owner: string, repository: string, defaultBranch: string) {
+  await eventHandler.defaultBranches.put(getRepositoryKey(owner, repository), { defaultBranch });
+}
+
+/**
+ * Forgets the installation of an account and the default branches of its repositories, when the installation changed.
+ */
+export async function forgetInstallation(eventHandler: GitHubEventHandler, owner: string) {
+  await eventHandler.installations.delete(getOwnerKey(owner));
+  const repositories = await eventHandler.defaultBranches.list(`${getOwnerKey(owner)}/`);
+  await Promise.all(repositories.map((id) => eventHandler.defaultBranches.delete(id)));
+}
+
+export async function forgetDefaultBranch(eventHandler: GitHubEventHandler, owner: string, repository: string) {
+  await eventHandler.defaultBranches.delete(getRepositoryKey(owner, repository));
+}
+
+// Logins and repository names are case-insensitive on GitHub
+function getOwnerKey(owner: string) {
+  return owner.toLowerCase();
+}
+
+function getRepositoryKey(owner: string, repository: string) {
+  return `${getOwnerKey(owner)}/${repository.toLowerCase()}`;
+}
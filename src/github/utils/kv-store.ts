@@ -6,8 +6,40 @@
 export interface KvStore<T> {
   get(id: string): Promise<T | null>;
   put(id: string, state: T): Promise<void>;
+  delete(id: string): Promise<void>;
+  /**
+   * Lists the ids starting with `prefix`, or every id when it is omitted, in lexicographic order. Stops after the first
+   * `limit` ids when set.
+   */
+  list(prefix?: string, limit?: number): Promise<string[]>;
 }
 
+/**
+ * Creates the store of each kind of value the kernel keeps, under its own key prefix, with values expiring after
+ * `expirationTtl` seconds when set.
+ */
+export type KvStoreFactory = <T>(prefix: string, expirationTtl?: number) => KvStore<T>;
+
+/**
+ * Cloudflare KV refuses expiration TTLs lower than 60 seconds.
+ */
+const MIN_EXPIRATION_TTL = 60;
+/**
+ * Cloudflare KV lists at most 1000 keys per page.
+ */
+const MAX_LIST_PAGE_SIZE = 1000;
+
+type CloudflareKvOptions = {
+  /**
+   * Prepended to every key, so several stores can share the same namespace.
+   */
+  prefix?: string;
+  /**
+   * Number of seconds after which a stored value expires. Leave empty to keep values forever.
+   */
+  expirationTtl?: number;
+};
+
 /**
  * CloudflareKv is a class that provides an interface to interact with
  * Cloudflare KV (Key-Value) storage.
@@ -16,21 +48,43 @@ export interface KvStore<T> {
  *
  * @template T - The type of the values being stored.
  */
-// export class CloudflareKv<T> implements KvStore<T> {
-//   private _kv: KVNamespace;
-//
-//   constructor(kv: KVNamespace) {
-//     this._kv = kv;
-//   }
-//
-//   get(id: string): Promise<T | null> {
-//     return this._kv.get(id, "json");
-//   }
-//
-//   put(id: string, state: T): Promise<void> {
-//     return this._kv.put(id, JSON.stringify(state));
-//   }
-// }
+export class CloudflareKv<T> implements KvStore<T> {
+  private _kv: KVNamespace;
+  private _prefix: string;
+  private _expirationTtl: number | undefined;
+
+  constructor(kv: KVNamespace, options?: CloudflareKvOptions) {
+    if (options?.expirationTtl !== undefined && (!Number.isInteger(options.expirationTtl) || options.expirationTtl < MIN_EXPIRATION_TTL)) {
+      throw new Error(`The expiration TTL must be an integer of at least ${MIN_EXPIRATION_TTL} seconds, got ${options.expirationTtl}`);
+    }
+    this._kv = kv;
+    this._prefix = options?.prefix ?? "";
+    this._expirationTtl = options?.expirationTtl;
+  }
+
+  get(id: string): Promise<T | null> {
+    return this._kv.get(this._prefix + id, "json");
+  }
+
+  put(id: string, state: T): Promise<void> {
+    return this._kv.put(this._prefix + id, JSON.stringify(state), this._expirationTtl ? { expirationTtl: this._expirationTtl } : undefined);
+  }
+
+  delete(id: string): Promise<void> {
+    return this._kv.delete(this._prefix + id);
+  }
+
+  async list(prefix = "", limit = Infinity): Promise<string[]> {
+    const ids: string[] = [];
+    let cursor: string | undefined;
+    do {
+      const result = await this._kv.list({ prefix: this._prefix + prefix, cursor, limit: Math.min(limit - ids.length, MAX_LIST_PAGE_SIZE) });
+      ids.push(...result.keys.map(({ name }) => name.slice(this._prefix.length)));
+      cursor = result.list_complete ? undefined : result.cursor;
+    } while (cursor && ids.length < limit);
+    return ids;
+  }
+}
 
 /**
  * A class that implements the KvStore interface, representing an empty key-value store.
@@ -48,4 +102,59 @@ export class EmptyStore<T> implements KvStore<T> {
     console.log(`put KV ${id} ${state}`);
     return Promise.resolve();
   }
+
+  delete(id: string): Promise<void> {
+    console.log(`delete KV ${id}`);
+    return Promise.resolve();
+  }
+
+  list(prefix = "", limit?: number): Promise<string[]> {
+    console.log(`list KV ${prefix} ${limit ?? ""}`);
+    return Promise.resolve([]);
+  }
+}
+
+/**
+ * MemoryKv keeps the values in the memory of the process, so they are lost when it stops. Meant for tests and local
+ * development, or a single kernel process that can afford to forget its plugin chains.
+ *
+ * @template T - The type of the values being stored.
+ */
+export class MemoryKv<T> implements KvStore<T> {
+  private _values = new Map<string, { value: string; expiresAt?: number }>();
+  private _expirationTtl: number | undefined;
+
+  constructor(options?: { expirationTtl?: number }) {
+    this._expirationTtl = options?.expirationTtl;
+  }
+
+  get(id: string): Promise<T | null> {
+    const entry = this._values.get(id);
+    if (!entry || (entry.expiresAt !== undefined && entry.expiresAt <= Date.now())) {
+      this._values.delete(id);
+      return Promise.resolve(null);
+    }
+    return Promise.resolve(JSON.parse(entry.value));
+  }
+
+  put(id: string, state: T): Promise<void> {
+    // Values are serialized like in the other stores, so they are never shared with the caller
+    this._values.set(id, { value: JSON.stringify(state), expiresAt: this._expirationTtl ? Date.now() + this._expirationTtl * 1000 : undefined });
+    return Promise.resolve();
+  }
+
+  delete(id: string): Promise<void> {
+    this._values.delete(id);
+    return Promise.resolve();
+  }
+
+  async list(prefix = "", limit = Infinity): Promise<string[]> {
+    const ids: string[] = [];
+    for (const id of [...this._values.keys()].sort()) {
+      if (ids.length < limit && id.startsWith(prefix) && (await this.get(id)) !== null) {
+        ids.push(id);
+      }
+    }
+    return ids;
+  }
 }
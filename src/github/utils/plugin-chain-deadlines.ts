@@ -0,0 +1,44 @@
+import { GitHubEventHandler } from "../github-event-handler";
+import { PluginChainState } from "../types/plugin";
+import { getPluginChainStepIndexes } from "../types/plugin-configuration";
+
+/**
+ * Indexes the earliest deadline of the Action plugins a chain waits for, so the scheduled job looking for timed out
+ * chains only reads the chains in progress. Chains of Worker plugins only are never indexed. Failing to index is only
+ * logged, as the index must not stop the chain, and the scheduled job drops the entries of the chains that are over.
+ */
+export async function trackPluginChainDeadline(eventHandler: GitHubEventHandler, stateId: string, state: PluginChainState) {
+  const deadline = getEarliestDeadline(state);
+  if (deadline === undefined) {
+    await untrackPluginChainDeadline(eventHandler, stateId, state);
+    return;
+  }
+  try {
+    await eventHandler.pluginChainDeadlines.put(stateId, { deadline });
+  } catch (error) {
+    console.error(`Could not index the deadline of the plugin chain ${stateId}`, error);
+  }
+}
+
+/**
+ * Removes a chain from the index once it no longer waits for an Action plugin. Chains that never dispatched one were
+ * not indexed, so nothing gets written for them.
+ */
+export async function untrackPluginChainDeadline(eventHandler: GitHubEventHandler, stateId: string, state: PluginChainState) {
+  if (!state.deadlines.some((deadline) => deadline)) return;
+  try {
+    await eventHandler.pluginChainDeadlines.delete(stateId);
+  } catch (error) {
+    console.error(`Could not remove the deadline of the plugin chain ${stateId} from the index`, error);
+  }
+}
+
+/**
+ * Returns the earliest deadline of the plugins of the current step that did not return their output yet.
+ */
+function getEarliestDeadline(state: PluginChainState) {
+  const deadlines = getPluginChainStepIndexes(state.pluginChain, state.currentPlugin)
+    .filter((index) => state.deadlines[index] && !state.outputs[index] && !state.skippedPlugins.includes(index))
+    .map((index) => state.deadlines[index]);
+  return deadlines.length ? Math.min(...deadlines) : undefined;
+}
@@ -0,0 +1,81 @@
+import { Value } from "@sinclair/typebox/value";
+import { PLUGIN_CHAIN_STATE_VERSION, PluginChainState, storedPluginChainStateSchema } from "../types/plugin";
+import { KvStore } from "./kv-store";
+
+type StateMigration = (state: Record<string, unknown>) => Record<string, unknown>;
+
+/**
+ * `migrations[n]` upgrades a state of version `n` to version `n + 1`. States written before they were versioned are
+ * version 0.
+ */
+const migrations: StateMigration[] = [
+  // Unversioned states can predate the status, skips, deadlines and attempts of the chains, and hold the event handler
+  // in their inputs
+  (state) => ({
+    ...state,
+    status: state.status ?? "in_progress",
+    skippedPlugins: state.skippedPlugins ?? [],
+    deadlines: state.deadlines ?? [],
+    attempts: state.attempts ?? [],
+    inputs: Array.isArray(state.inputs) ? state.inputs.map((input) => input && omitEventHandler(input)) : [],
+  }),
+];
+
+/**
+ * Upgrades a stored state to the current version, then validates it. Returns `null` when the state is invalid, or
+ * was written by a newer kernel.
+ */
+export function migratePluginChainState(id: string, value: unknown): PluginChainState | null {
+  if (typeof value !== "object" || value === null) {
+    console.warn(`The plugin chain state ${id} is not an object`);
+    return null;
+  }
+  let state = value as Record<string, unknown>;
+  const version = typeof state.version === "number" ? state.version : 0;
+  if (version > PLUGIN_CHAIN_STATE_VERSION) {
+    console.warn(`The plugin chain state ${id} has the version ${version}, newer than the supported version ${PLUGIN_CHAIN_STATE_VERSION}`);
+    return null;
+  }
+  for (let i = version; i < PLUGIN_CHAIN_STATE_VERSION; ++i) {
+    state = migrations[i](state);
+  }
+  state.version = PLUGIN_CHAIN_STATE_VERSION;
+  if (!Value.Check(storedPluginChainStateSchema, state)) {
+    console.warn(`The plugin chain state ${id} is invalid`, [...Value.Errors(storedPluginChainStateSchema, state)]);
+    return null;
+  }
+  return state as unknown as PluginChainState;
+}
+
+/**
+ * PluginChainStateStore writes the plugin chain states along with their version, and migrates and validates them when
+ * they are read back, so the chains in progress during a deployment can carry on with the new kernel.
+ */
+export class PluginChainStateStore implements KvStore<PluginChainState> {
+  private _store: KvStore<unknown>;
+
+  constructor(store: KvStore<unknown>) {
+    this._store = store;
+  }
+
+  async get(id: string): Promise<PluginChainState | null> {
+    const value = await this._store.get(id);
+    return value === null ? null : migratePluginChainState(id, value);
+  }
+
+  put(id: string, state: PluginChainState): Promise<void> {
+    return this._store.put(id, { ...state, version: PLUGIN_CHAIN_STATE_VERSION });
+  }
+
+  delete(id: string): Promise<void> {
+    return this._store.delete(id);
+  }
+
+  list(prefix?: string, limit?: number): Promise<string[]> {
+    return this._store.list(prefix, limit);
+  }
+}
+
+function omitEventHandler(input: Record<string, unknown>) {
+  return Object.fromEntries(Object.entries(input).filter(([key]) => key !== "eventHandler"));
+}
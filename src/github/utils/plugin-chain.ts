@@ -0,0 +1,359 @@
+import { EmitterWebhookEvent } from "@octokit/webhooks";
+import { Value } from "@sinclair/typebox/value";
+import { GitHubContext } from "../github-context";
+import { GitHubEventHandler } from "../github-event-handler";
+import { PluginChainState, PluginInput, PluginOutput, workerOutputSchema } from "../types/plugin";
+import { getPluginChainStepIndexes, isGithubPlugin, PluginChain } from "../types/plugin-configuration";
+import { createOutputSecret } from "../../types/output-signature";
+import { recordPluginChainEvent } from "./audit-log";
+import { releaseConcurrencyGroup } from "./concurrency";
+import { getIssueNumber } from "./event-payload";
+import { checkTemplate, conditionToTemplate, evaluateTemplate } from "./expressions";
+import { trackPluginChainDeadline, untrackPluginChainDeadline } from "./plugin-chain-deadlines";
+import { getPluginToken } from "./plugin-permissions";
+import { getManifest } from "./plugins";
+import { dispatchWithRetry, getRetryPolicy } from "./retry";
+import { dispatchWorker, dispatchWorkflow, getDefaultBranch } from "./workflow-dispatch";
+
+/**
+ * Number of seconds the kernel waits for an Action plugin to return its output when neither the chain nor the
+ * manifest set a timeout.
+ */
+const DEFAULT_PLUGIN_TIMEOUT = 60 * 60;
+
+type ExpressionScope = {
+  values: Record<string, unknown>;
+  allIds: Set<string>;
+  calledIds: Set<string>;
+};
+
+/**
+ * Dispatches the plugins of the chain step starting at `state.currentPlugin`. Worker plugins answer synchronously, so
+ * their response is handled as their output right away, which carries the chain on to the next step once the whole
+ * step is done. Action plugins report back later on, so they get a deadline after which the chain times out. The state
+ * is only written once the whole step is dispatched, and not at all when the chain moves on to the next step, since the
+ * stores limit how often the same key can be written. Callers hold the `pluginChainLock` of the chain, which is not
+ * reentrant.
+ */
+export async function dispatchPluginChainStep(context: GitHubContext, stateId: string, state: PluginChainState) {
+  if (!("installation" in state.eventPayload) || state.eventPayload.installation?.id === undefined) {
+    throw new Error("No installation found, cannot invoke plugin");
+  }
+  const installationId = state.eventPayload.installation.id;
+  // The context may come from the event returning an output, whose repository is the one of the plugin
+  const repository = "repository" in state.eventPayload ? state.eventPayload.repository?.name : undefined;
+  const scope = getExpressionScope(state);
+
+  const dispatches: { index: number; inputs: PluginInput }[] = [];
+  for (const index of getPluginChainStepIndexes(state.pluginChain, state.currentPlugin)) {
+    const { plugin, with: settings, if: condition, timeout } = state.pluginChain[index];
+    if (condition !== undefined && !resolveExpressions(conditionToTemplate(condition), scope)) {
+      console.log(`Skipping plugin ${JSON.stringify(plugin)} because its condition is not met: ${condition}`);
+      state.skippedPlugins.push(index);
+      await recordPluginChainEvent(context.eventHandler, stateId, state, "skipped", { plugin: index, details: { condition } });
+      continue;
+    }
+    const ref = isGithubPlugin(plugin) ? (plugin.ref ?? (await getDefaultBranch(context, plugin.owner, plugin.repo))) : plugin;
+    const manifest = await getManifest(context, plugin);
+    let token: string;
+    try {
+      token = await getPluginToken(context, installationId, manifest, repository);
+    } catch (error) {
+      await failPluginChain(context.eventHandler, stateId, state, { plugin: index, message: error instanceof Error ? error.message : String(error) });
+      throw error;
+    }
+    const isSigned = context.eventHandler.requireSignedOutputs || manifest?.["ubiquity:signed-outputs"];
+    const outputSecret = isGithubPlugin(plugin) && isSigned ? createOutputSecret() : undefined;
+    const inputs = new PluginInput(
+      context.eventHandler,
+      stateId,
+      state.eventName,
+      state.eventPayload,
+      resolveExpressions(settings, scope),
+      token,
+      ref,
+      outputSecret
+    );
+    state.inputs[index] = inputs.toJSON();
+    if (isGithubPlugin(plugin)) {
+      state.deadlines[index] = Date.now() + (timeout ?? manifest?.["ubiquity:timeout"] ?? DEFAULT_PLUGIN_TIMEOUT) * 1000;
+    }
+    dispatches.push({ index, inputs });
+  }
+
+  if (!dispatches.length) {
+    await advancePluginChain(context, stateId, state);
+    return;
+  }
+
+  const workerOutputs = await Promise.all(
+    dispatches.map(async ({ index, inputs }) => {
+      const { plugin } = state.pluginChain[index];
+      console.log(`Calling handler ${JSON.stringify(plugin)} for event ${state.eventName}`);
+      if (isGithubPlugin(plugin)) {
+        const workflowInputs = await inputs.getWorkflowInputs();
+        await dispatchPlugin(context, stateId, state, index, (timeout) =>
+          dispatchWorkflow(context, {
+            owner: plugin.owner,
+            repository: plugin.repo,
+            workflowId: plugin.workflowId,
+            ref: plugin.ref,
+            inputs: workflowInputs,
+            timeout,
+          })
+        );
+        await recordPluginChainEvent(context.eventHandler, stateId, state, "dispatched", { plugin: index });
+        return null;
+      }
+      const workerInputs = await inputs.getWorkerInputs();
+      const response = await dispatchPlugin(context, stateId, state, index, (timeout) => dispatchWorker(plugin, workerInputs, timeout));
+      await recordPluginChainEvent(context.eventHandler, stateId, state, "dispatched", { plugin: index });
+      try {
+        return { index, output: decodeWorkerOutput(stateId, response) };
+      } catch (error) {
+        // Worker plugins get no deadline, so the chain would otherwise never end
+        await failPluginChain(context.eventHandler, stateId, state, { plugin: index, message: error instanceof Error ? error.message : String(error) });
+        throw error;
+      }
+    })
+  );
+
+  for (const workerOutput of workerOutputs) {
+    if (workerOutput) {
+      await savePluginOutput(context.eventHandler, state, workerOutput.output, workerOutput.index);
+    }
+  }
+  if (await waitForPendingPlugins(context.eventHandler, stateId, state)) {
+    await trackPluginChainDeadline(context.eventHandler, stateId, state);
+    return;
+  }
+  await advancePluginChain(context, stateId, state);
+}
+
+/**
+ * Dispatches a plugin following the retry policy of its step, recording each attempt in the state. The chain fails
+ * once the plugin cannot be dispatched.
+ */
+async function dispatchPlugin<T>(context: GitHubContext, stateId: string, state: PluginChainState, index: number, dispatch: (timeout: number) => Promise<T>) {
+  state.attempts[index] ??= [];
+  try {
+    return await dispatchWithRetry(getRetryPolicy(state.pluginChain[index].retry), dispatch, (attempt) => state.attempts[index].push(attempt));
+  } catch (error) {
+    await failPluginChain(context.eventHandler, stateId, state, { plugin: index, message: error instanceof Error ? error.message : String(error) });
+    throw error;
+  }
+}
+
+/**
+ * Saves the output of a plugin of the current step, then dispatches the next step once every plugin of the current
+ * one is done. Callers hold the `pluginChainLock` of the chain.
+ */
+export async function handlePluginOutput(context: GitHubContext, state: PluginChainState, pluginOutput: PluginOutput, index = state.currentPlugin) {
+  if (state.status !== "in_progress") {
+    console.log(`Ignoring the output of a plugin chain that is ${state.status}`);
+    return;
+  }
+  await savePluginOutput(context.eventHandler, state, pluginOutput, index);
+  if (!(await waitForPendingPlugins(context.eventHandler, pluginOutput.state_id, state))) {
+    await advancePluginChain(context, pluginOutput.state_id, state);
+  }
+}
+
+async function savePluginOutput(eventHandler: GitHubEventHandler, state: PluginChainState, pluginOutput: PluginOutput, index: number) {
+  state.outputs[index] = pluginOutput;
+  await recordPluginChainEvent(eventHandler, pluginOutput.state_id, state, "output_received", {
+    plugin: index,
+    details: pluginOutput.error && { error: pluginOutput.error },
+  });
+}
+
+/**
+ * Writes the state and returns `true` while plugins of the current step did not return their output yet. Otherwise
+ * nothing is written, the next step writes the state in turn.
+ */
+async function waitForPendingPlugins(eventHandler: GitHubEventHandler, stateId: string, state: PluginChainState) {
+  const pendingPlugins = getPluginChainStepIndexes(state.pluginChain, state.currentPlugin).filter(
+    (i) => !state.outputs[i] && !state.skippedPlugins.includes(i)
+  );
+  if (!pendingPlugins.length) {
+    return false;
+  }
+  console.log(`Waiting for ${pendingPlugins.length} plugin(s) of the plugin chain ${stateId}`);
+  await eventHandler.pluginChainState.put(stateId, state);
+  return true;
+}
+
+/**
+ * Moves on to the next step once the current one is done. Fallback steps only run when a plugin of the previous step
+ * reported an error, and without one the chain fails unless the failing plugins are allowed to `continueOnError`.
+ */
+async function advancePluginChain(context: GitHubContext, stateId: string, state: PluginChainState) {
+  // Another request may have cancelled or timed out the chain in the meantime
+  const storedState = await context.eventHandler.pluginChainState.get(stateId);
+  if (storedState && storedState.status !== "in_progress") {
+    console.log(`Stopping the plugin chain ${stateId} that is ${storedState.status}`);
+    return;
+  }
+  const currentStep = getPluginChainStepIndexes(state.pluginChain, state.currentPlugin);
+  let nextPlugin = currentStep[currentStep.length - 1] + 1;
+  const failedPlugin = currentStep.find((i) => state.outputs[i]?.error && !state.pluginChain[i].continueOnError);
+  const error = failedPlugin === undefined ? undefined : state.outputs[failedPlugin].error;
+  if (failedPlugin !== undefined && error && !state.pluginChain[nextPlugin]?.fallback) {
+    const url = typeof error.metadata?.url === "string" ? error.metadata.url : undefined;
+    await failPluginChain(context.eventHandler, stateId, state, { plugin: failedPlugin, message: `${error.name}: ${error.message}`, ...(url && { url }) });
+    return;
+  } else if (!currentStep.some((i) => state.outputs[i]?.error)) {
+    while (state.pluginChain[nextPlugin]?.fallback) {
+      console.log(`Skipping fallback plugin ${JSON.stringify(state.pluginChain[nextPlugin].plugin)} because the previous step succeeded`);
+      state.skippedPlugins.push(nextPlugin);
+      await recordPluginChainEvent(context.eventHandler, stateId, state, "skipped", { plugin: nextPlugin, details: { fallback: true } });
+      ++nextPlugin;
+    }
+  }
+  if (nextPlugin >= state.pluginChain.length) {
+    console.log("No more plugins to call");
+    state.status = "completed";
+    await context.eventHandler.pluginChainState.put(stateId, state);
+    await recordPluginChainEvent(context.eventHandler, stateId, state, "completed");
+    await releasePluginChain(context.eventHandler, stateId, state);
+    return;
+  }
+
+  state.currentPlugin = nextPlugin;
+  console.log("Dispatching next plugin", state.pluginChain[state.currentPlugin]);
+  await dispatchPluginChainStep(context, stateId, state);
+}
+
+/**
+ * Stops the chain for good, any output returned afterwards gets ignored.
+ */
+export async function failPluginChain(
+  eventHandler: GitHubEventHandler,
+  stateId: string,
+  state: PluginChainState,
+  error: NonNullable<PluginChainState["error"]>
+) {
+  console.error(`Plugin chain ${stateId} failed: ${error.message}`);
+  state.status = "failed";
+  state.error = error;
+  await eventHandler.pluginChainState.put(stateId, state);
+  await recordPluginChainEvent(eventHandler, stateId, state, "failed", { plugin: error.plugin, details: { message: error.message, url: error.url } });
+  const link = error.url ? ` (${error.url})` : "";
+  await commentOnPluginChainEvent(
+    eventHandler,
+    state,
+    `The plugin chain triggered by \`${state.eventName}\` failed because of \`${getPluginName(state.pluginChain[error.plugin])}\`: ${error.message}${link}`
+  );
+  await releasePluginChain(eventHandler, stateId, state);
+}
+
+/**
+ * Drops the deadline of a chain that is over, and hands its concurrency group to the next queued chain, which gets
+ * dispatched.
+ */
+export async function releasePluginChain(eventHandler: GitHubEventHandler, stateId: string, state: PluginChainState) {
+  await untrackPluginChainDeadline(eventHandler, stateId, state);
+  const next = await releaseConcurrencyGroup(eventHandler, stateId, state);
+  if (!next) return;
+
+  console.log(`Dispatching the queued plugin chain ${next.stateId}`);
+  try {
+    await eventHandler.pluginChainLock.withLock(next.stateId, async () => {
+      // The state is read again, in case the chain got updated before its lock was taken
+      const state = await eventHandler.pluginChainState.get(next.stateId);
+      if (state?.status !== "in_progress") return;
+      await dispatchPluginChainStep(getPluginChainContext(eventHandler, state), next.stateId, state);
+    });
+  } catch (error) {
+    console.error(`An error occurred while processing the queued plugin chain ${next.stateId}`, error);
+  }
+}
+
+/**
+ * Builds the context of the event that triggered a chain, for the chains carried on outside of the handler of that
+ * event.
+ */
+export function getPluginChainContext(eventHandler: GitHubEventHandler, state: PluginChainState) {
+  const [name] = state.eventName.split(".");
+  return eventHandler.transformEvent({ id: state.eventId, name, payload: state.eventPayload } as EmitterWebhookEvent);
+}
+
+/**
+ * Tells the issue or pull request the chain was triggered from about what happened to it. Failing to comment is only
+ * logged, since the state of the chain is already saved by then.
+ */
+export async function commentOnPluginChainEvent(eventHandler: GitHubEventHandler, state: PluginChainState, body: string) {
+  const payload = state.eventPayload;
+  if (!("installation" in payload) || payload.installation?.id === undefined || !("repository" in payload) || !payload.repository?.owner) {
+    return;
+  }
+  const issueNumber = getIssueNumber(payload);
+  if (issueNumber === undefined) {
+    console.log("No issue found for the event, skipping the plugin chain comment");
+    return;
+  }
+  try {
+    await eventHandler.getAuthenticatedOctokit(payload.installation.id).rest.issues.createComment({
+      owner: payload.repository.owner.login,
+      repo: payload.repository.name,
+      issue_number: issueNumber,
+      body,
+    });
+  } catch (error) {
+    console.error("Could not comment on the event of the plugin chain", error);
+  }
+}
+
+export function getPluginName({ id, plugin }: PluginChain[0]) {
+  const name = isGithubPlugin(plugin) ? `${plugin.owner}/${plugin.repo}/${plugin.workflowId}` : plugin;
+  return id ? `${id} (${name})` : name;
+}
+
+/**
+ * Expressions can read the event payload with `event.*` and the outputs of the previous plugins with
+ * `steps.<id>.output.*`, or `<id>.output.*` for short, along with the error they reported under `steps.<id>.error`. The
+ * outputs of a group are gathered by plugin id under `steps.<group>.output.<id>`.
+ */
+function getExpressionScope(state: PluginChainState): ExpressionScope {
+  const steps: Record<string, { output: unknown; error?: unknown }> = {};
+  const groups: Record<string, Record<string, unknown>> = {};
+  for (let i = 0; i < state.currentPlugin; ++i) {
+    const { id, group } = state.pluginChain[i];
+    const output = state.outputs[i]?.output;
+    if (id) {
+      steps[id] = { output, error: state.outputs[i]?.error };
+    }
+    if (group) {
+      groups[group] ??= {};
+      steps[group] = { output: groups[group] };
+      if (id) {
+        groups[group][id] = output;
+      }
+    }
+  }
+  const allIds = new Set(state.pluginChain.flatMap(({ id, group }) => [id, group].filter((o): o is string => !!o)));
+  return { values: { ...steps, event: state.eventPayload, steps }, allIds, calledIds: new Set(Object.keys(steps)) };
+}
+
+function resolveExpressions(value: unknown, scope: ExpressionScope): unknown {
+  if (typeof value === "string") {
+    checkTemplate(value, scope.allIds, scope.calledIds);
+    return evaluateTemplate(value, scope.values);
+  } else if (Array.isArray(value)) {
+    return value.map((item) => resolveExpressions(item, scope));
+  } else if (typeof value === "object" && value !== null) {
+    return Object.fromEntries(Object.entries(value).map(([key, item]) => [key, resolveExpressions(item, scope)]));
+  }
+  return value;
+}
+
+function decodeWorkerOutput(stateId: string, response: unknown): PluginOutput {
+  if (!Value.Check(workerOutputSchema, response)) {
+    console.error("Cannot decode Worker plugin output", [...Value.Errors(workerOutputSchema, response)]);
+    throw new Error("Invalid Worker plugin output");
+  }
+  if (response.stateId !== stateId) {
+    throw new Error(`Worker plugin output belongs to state ${response.stateId} instead of ${stateId}`);
+  }
+  return { state_id: stateId, output: response.output ?? {}, ...(response.error && { error: response.error }) };
+}
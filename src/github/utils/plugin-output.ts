@@ -0,0 +1,114 @@
+import { Value } from "@sinclair/typebox/value";
+import { GitHubContext } from "../github-context";
+import { GitHubEventHandler } from "../github-event-handler";
+import { PluginChainState, PluginOutput, pluginOutputSchema } from "../types/plugin";
+import { getPluginChainStepIndexes, isGithubPlugin } from "../types/plugin-configuration";
+import { verifyPluginOutput } from "../../types/output-signature";
+import { getPluginChainContext, handlePluginOutput } from "./plugin-chain";
+
+/**
+ * What became of an output returned to the kernel, so the HTTP route can answer with the matching status.
+ */
+export type PluginOutputStatus = "accepted" | "invalid" | "state_not_found" | "not_pending" | "unauthorized";
+
+type PluginOutputSource = {
+  // The repository a `repository_dispatch` came from, which must be the one of the plugin
+  repository?: { owner: string; name: string };
+  // Defaults to a context built from the event of the chain
+  context?: GitHubContext;
+};
+
+/**
+ * Hands an output returned by a plugin, either with a `repository_dispatch` or with the HTTP callback, to the pending
+ * plugin of the current step of its chain whose output secret signed it. The state is read again within the lock, so a
+ * duplicate output finds its plugin already done.
+ */
+export async function receivePluginOutput(eventHandler: GitHubEventHandler, payload: unknown, source: PluginOutputSource = {}): Promise<PluginOutputStatus> {
+  let pluginOutput: PluginOutput;
+  try {
+    pluginOutput = Value.Decode(pluginOutputSchema, payload);
+  } catch (error) {
+    console.error("Cannot decode plugin output", error);
+    return "invalid";
+  }
+  console.log("Plugin output", pluginOutput);
+
+  const signedOutput = payload as Record<string, unknown>;
+  return eventHandler.pluginChainLock.withLock(pluginOutput.state_id, () => handleSignedOutput(eventHandler, pluginOutput, signedOutput, source));
+}
+
+async function handleSignedOutput(
+  eventHandler: GitHubEventHandler,
+  pluginOutput: PluginOutput,
+  signedOutput: Record<string, unknown>,
+  { repository, context }: PluginOutputSource
+): Promise<PluginOutputStatus> {
+  const state = await eventHandler.pluginChainState.get(pluginOutput.state_id);
+  if (!state) {
+    console.error("No state found for plugin chain");
+    return "state_not_found";
+  }
+
+  if (!("installation" in state.eventPayload) || state.eventPayload.installation?.id === undefined) {
+    console.error("No installation found");
+    return "state_not_found";
+  }
+
+  // Within a group, the output belongs to the pending plugin whose output secret signed it
+  const pendingPlugins = getPluginChainStepIndexes(state.pluginChain, state.currentPlugin).filter((index) => {
+    const { plugin } = state.pluginChain[index];
+    const isFromRepository = !repository || (isGithubPlugin(plugin) && plugin.owner === repository.owner && plugin.repo === repository.name);
+    return isFromRepository && !state.outputs[index] && !state.skippedPlugins.includes(index);
+  });
+  if (!pendingPlugins.length) {
+    console.error("Plugin chain state does not match payload");
+    return "not_pending";
+  }
+  const pluginIndex = (await findSigningPlugin(state, signedOutput, pendingPlugins)) ?? findUnsignedPlugin(eventHandler, state, pendingPlugins, repository);
+  if (pluginIndex === undefined) {
+    console.error(`Rejecting an output of the plugin chain ${pluginOutput.state_id} whose signature is missing or invalid`);
+    return "unauthorized";
+  }
+  console.log("State", state);
+
+  try {
+    await handlePluginOutput(context ?? getPluginChainContext(eventHandler, state), state, pluginOutput, pluginIndex);
+  } catch (error) {
+    console.error("An error occurred while processing the plugin chain", error);
+  }
+  return "accepted";
+}
+
+/**
+ * Returns the plugin whose output secret signed the output, so nobody else can return outputs on its behalf. The
+ * signature covers the fields as they were sent, before the output gets parsed.
+ */
+async function findSigningPlugin(state: PluginChainState, { state_id: stateId, output, error, signature }: Record<string, unknown>, pluginIndexes: number[]) {
+  if (typeof signature !== "string") {
+    return undefined;
+  }
+  const signedFields = { state_id: stateId as string, output: output as string | null, error: error as PluginOutput["error"] };
+  for (const index of pluginIndexes) {
+    const outputSecret = state.inputs[index]?.outputSecret;
+    if (outputSecret && (await verifyPluginOutput(outputSecret, signedFields, signature))) {
+      return index;
+    }
+  }
+  return undefined;
+}
+
+/**
+ * Plugins whose manifest does not enable `ubiquity:signed-outputs` get no output secret, so their outputs are only
+ * accepted unsigned from a `repository_dispatch` of their own repository, until every plugin signs its outputs and the
+ * kernel requires signed outputs.
+ */
+function findUnsignedPlugin(eventHandler: GitHubEventHandler, state: PluginChainState, pluginIndexes: number[], repository?: PluginOutputSource["repository"]) {
+  if (eventHandler.requireSignedOutputs) {
+    return undefined;
+  }
+  const index = repository ? pluginIndexes.find((i) => !state.inputs[i]?.outputSecret) : undefined;
+  if (index !== undefined) {
+    console.warn(`Accepting an unsigned output of ${repository?.owner}/${repository?.name}, whose manifest does not enable ubiquity:signed-outputs`);
+  }
+  return index;
+}
@@ -0,0 +1,36 @@
+import { GitHubContext } from "../github-context";
+import { Manifest } from "../../types/manifest";
+
+const permissionLevels: Record<string, number> = { read: 1, write: 2, admin: 3 };
+
+/**
+ * Returns the permissions asked by a manifest that go beyond the ones granted to the installation, as `<name>:<level>`.
+ */
+export function getMissingPermissions(requested: NonNullable<Manifest["ubiquity:permissions"]>, granted: Record<string, string | undefined>) {
+  return Object.entries(requested)
+    .filter(([name, level]) => (permissionLevels[granted[name] ?? ""] ?? 0) < permissionLevels[level])
+    .map(([name, level]) => `${name}:${level}`);
+}
+
+export async function getInstallationPermissions(context: GitHubContext, installationId: number): Promise<Record<string, string | undefined>> {
+  const { data } = await context.eventHandler.getUnauthenticatedOctokit().rest.apps.getInstallation({ installation_id: installationId });
+  return data.permissions;
+}
+
+/**
+ * Plugins declaring `ubiquity:permissions` in their manifest get a token limited to these permissions, and to the
+ * repository of the event that triggered the chain unless their `ubiquity:repository-scope` is the whole installation.
+ * The others get a token with every permission of the installation.
+ */
+export async function getPluginToken(context: GitHubContext, installationId: number, manifest: Manifest | null, repository?: string) {
+  const permissions = manifest?.["ubiquity:permissions"];
+  if (!permissions) {
+    return context.eventHandler.getToken(installationId);
+  }
+  const missingPermissions = getMissingPermissions(permissions, await getInstallationPermissions(context, installationId));
+  if (missingPermissions.length) {
+    throw new Error(`The plugin ${manifest.name} asks for permissions the app is not granted: ${missingPermissions.join(", ")}`);
+  }
+  const repositoryNames = manifest["ubiquity:repository-scope"] !== "installation" && repository ? [repository] : undefined;
+  return context.eventHandler.getToken(installationId, { permissions, repositoryNames });
+}
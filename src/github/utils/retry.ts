@@ -0,0 +1,46 @@
+import { PluginDispatchAttempt } from "../types/plugin";
+import { RetryPolicy } from "../types/plugin-configuration";
+import { toDispatchError } from "./workflow-dispatch";
+
+/**
+ * Plugins are dispatched once by default, but requests hanging for too long are aborted either way.
+ */
+const defaultRetryPolicy: Required<RetryPolicy> = {
+  attempts: 1,
+  delay: 1000,
+  backoff: "exponential",
+  timeout: 30,
+  retryOn: ["network", "timeout", "rate_limit", "server"],
+};
+
+export function getRetryPolicy(policy?: RetryPolicy): Required<RetryPolicy> {
+  return { ...defaultRetryPolicy, ...policy };
+}
+
+/**
+ * Calls `dispatch` with the timeout of the policy, in milliseconds, until it succeeds, it fails with an error the
+ * policy does not retry, or it runs out of attempts. Every attempt is passed to `onAttempt`.
+ */
+export async function dispatchWithRetry<T>(
+  policy: Required<RetryPolicy>,
+  dispatch: (timeout: number) => Promise<T>,
+  onAttempt: (attempt: PluginDispatchAttempt) => void
+): Promise<T> {
+  for (let attempt = 1; ; ++attempt) {
+    const startedAt = Date.now();
+    try {
+      const result = await dispatch(policy.timeout * 1000);
+      onAttempt({ startedAt, duration: Date.now() - startedAt });
+      return result;
+    } catch (error) {
+      const dispatchError = toDispatchError(error);
+      onAttempt({ startedAt, duration: Date.now() - startedAt, error: { kind: dispatchError.kind, message: dispatchError.message } });
+      if (attempt >= policy.attempts || !policy.retryOn.includes(dispatchError.kind)) {
+        throw dispatchError;
+      }
+      const delay = policy.backoff === "exponential" ? policy.delay * 2 ** (attempt - 1) : policy.delay;
+      console.log(`Dispatch attempt ${attempt} failed (${dispatchError.kind}: ${dispatchError.message}), retrying in ${delay}ms`);
+      await new Promise((resolve) => setTimeout(resolve, delay));
+    }
+  }
+}
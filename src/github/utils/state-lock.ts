@@ -0,0 +1,201 @@
+import { KvStore } from "./kv-store";
+
+/**
+ * StateLock serializes the updates of a plugin chain state: whoever reads, changes and writes back a state does it
+ * within `withLock`, so concurrent or duplicate plugin outputs cannot advance the same chain twice.
+ */
+export interface StateLock {
+  /**
+   * Runs `fn` once no other caller holds the lock of `id`, and releases it afterwards.
+   */
+  withLock<T>(id: string, fn: () => Promise<T>): Promise<T>;
+}
+
+/**
+ * LocalLock only serializes the callers sharing the same instance, within a single process.
+ */
+export class LocalLock implements StateLock {
+  private _tails = new Map<string, Promise<void>>();
+
+  async withLock<T>(id: string, fn: () => Promise<T>): Promise<T> {
+    const previous = this._tails.get(id) ?? Promise.resolve();
+    let release: (() => void) | undefined;
+    const current = new Promise<void>((resolve) => (release = resolve));
+    const tail = previous.then(() => current);
+    this._tails.set(id, tail);
+    await previous;
+    try {
+      return await fn();
+    } finally {
+      release?.();
+      if (this._tails.get(id) === tail) {
+        this._tails.delete(id);
+      }
+    }
+  }
+}
+
+/**
+ * Milliseconds after which a lock that was never released, because its Worker was evicted, can be taken again.
+ */
+const LOCK_LEASE = 5 * 60 * 1000;
+/**
+ * Milliseconds a caller waits for the lock before giving up.
+ */
+const ACQUIRE_TIMEOUT = 60 * 1000;
+const MAX_RETRY_DELAY = 1000;
+const LOCK_ORIGIN = "https://state-lock.internal";
+
+/**
+ * DurableObjectLock holds a lease in the `StateLockObject` Durable Object named after the locked id, so every Worker
+ * isolate shares the same lock.
+ */
+export class DurableObjectLock implements StateLock {
+  private _namespace: DurableObjectNamespace;
+
+  constructor(namespace: DurableObjectNamespace) {
+    this._namespace = namespace;
+  }
+
+  async withLock<T>(id: string, fn: () => Promise<T>): Promise<T> {
+    const stub = this._namespace.get(this._namespace.idFromName(id));
+    const token = crypto.randomUUID();
+    const deadline = Date.now() + ACQUIRE_TIMEOUT;
+    for (let delay = 50; ; delay = Math.min(delay * 2, MAX_RETRY_DELAY)) {
+      const response = await stub.fetch(`${LOCK_ORIGIN}/acquire`, { method: "POST", body: JSON.stringify({ token, lease: LOCK_LEASE }) });
+      if (response.ok) {
+        break;
+      }
+      if (Date.now() + delay > deadline) {
+        throw new Error(`Could not lock ${id} within ${ACQUIRE_TIMEOUT}ms`);
+      }
+      await new Promise((resolve) => setTimeout(resolve, delay));
+    }
+    try {
+      return await fn();
+    } finally {
+      await stub.fetch(`${LOCK_ORIGIN}/release`, { method: "POST", body: JSON.stringify({ token }) });
+    }
+  }
+}
+
+/**
+ * DurableObjectKv keeps each value in the `StateLockObject` Durable Object named after its prefixed id. Unlike KV,
+ * whose writes can take a minute to reach the other locations, a Durable Object reads its own writes wherever it is
+ * called from, so the values read and written back within `withLock` are never outdated. Values cannot be listed.
+ *
+ * @template T - The type of the values being stored.
+ */
+export class DurableObjectKv<T> implements KvStore<T> {
+  private _namespace: DurableObjectNamespace;
+  private _prefix: string;
+  private _expirationTtl: number | undefined;
+
+  constructor(namespace: DurableObjectNamespace, options?: { prefix?: string; expirationTtl?: number }) {
+    this._namespace = namespace;
+    this._prefix = options?.prefix ?? "";
+    this._expirationTtl = options?.expirationTtl;
+  }
+
+  async get(id: string): Promise<T | null> {
+    const response = await this._fetch(id, "/get", {});
+    return response.status === 404 ? null : ((await response.json()) as { value: T }).value;
+  }
+
+  async put(id: string, state: T): Promise<void> {
+    await this._fetch(id, "/put", { value: state, expirationTtl: this._expirationTtl });
+  }
+
+  async delete(id: string): Promise<void> {
+    await this._fetch(id, "/delete", {});
+  }
+
+  list(): Promise<string[]> {
+    return Promise.reject(new Error("The values kept in Durable Objects cannot be listed"));
+  }
+
+  private async _fetch(id: string, path: string, body: Record<string, unknown>) {
+    const stub = this._namespace.get(this._namespace.idFromName(this._prefix + id));
+    const response = await stub.fetch(`${LOCK_ORIGIN}${path}`, { method: "POST", body: JSON.stringify(body) });
+    if (!response.ok && response.status !== 404) {
+      throw new Error(`Could not ${path.slice(1)} the value of ${id}: ${response.status}`);
+    }
+    return response;
+  }
+}
+
+type Lease = { token: string; expiresAt: number };
+
+type StoredValue = { value: unknown; expiresAt?: number };
+
+type StateObjectRequest = { token?: string; lease?: number; value?: unknown; expirationTtl?: number };
+
+/**
+ * Durable Object backing `DurableObjectLock` and `DurableObjectKv`, holding the lease of a lock or a value. Requests to
+ * a Durable Object are processed one at a time, so reading and writing the lease cannot interleave. Values expire
+ * through an alarm set to their expiration.
+ */
+export class StateLockObject {
+  private _state: DurableObjectState;
+
+  constructor(state: DurableObjectState) {
+    this._state = state;
+  }
+
+  async fetch(request: Request): Promise<Response> {
+    const body = (await request.json()) as StateObjectRequest;
+    const { pathname } = new URL(request.url);
+    if (pathname === "/get" || pathname === "/put" || pathname === "/delete") {
+      return this._handleValue(pathname, body);
+    }
+    return this._handleLease(pathname, body);
+  }
+
+  async alarm() {
+    const stored = await this._state.storage.get<StoredValue>("value");
+    if (stored?.expiresAt !== undefined && stored.expiresAt <= Date.now()) {
+      await this._state.storage.delete("value");
+    }
+  }
+
+  private async _handleValue(pathname: string, { value, expirationTtl }: StateObjectRequest) {
+    if (pathname === "/put") {
+      const expiresAt = expirationTtl ? Date.now() + expirationTtl * 1000 : undefined;
+      await this._state.storage.put<StoredValue>("value", { value, expiresAt });
+      if (expiresAt !== undefined) {
+        await this._state.storage.setAlarm(expiresAt);
+      }
+      return new Response(null, { status: 204 });
+    }
+    if (pathname === "/delete") {
+      await this._state.storage.delete("value");
+      return new Response(null, { status: 204 });
+    }
+    const stored = await this._state.storage.get<StoredValue>("value");
+    if (!stored || (stored.expiresAt !== undefined && stored.expiresAt <= Date.now())) {
+      return new Response(null, { status: 404 });
+    }
+    return new Response(JSON.stringify({ value: stored.value }), { headers: { "content-type": "application/json" } });
+  }
+
+  private async _handleLease(pathname: string, { token, lease }: StateObjectRequest) {
+    if (typeof token !== "string") {
+      return new Response(null, { status: 400 });
+    }
+    const current = await this._state.storage.get<Lease>("lease");
+    if (pathname === "/acquire") {
+      if (current && current.token !== token && current.expiresAt > Date.now()) {
+        return new Response(null, { status: 409 });
+      }
+      await this._state.storage.put<Lease>("lease", { token, expiresAt: Date.now() + (lease ?? LOCK_LEASE) });
+      return new Response(null, { status: 204 });
+    }
+    if (pathname === "/release") {
+      if (current?.token === token) {
+        await this._state.storage.delete("lease");
+      }
+      return new Response(null, { status: 204 });
+    }
+    return new Response(null, { status: 404 });
+  }
+}
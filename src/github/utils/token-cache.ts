@@ -0,0 +1,31 @@
+/**
+ * Installation tokens are valid for an hour, they are refreshed this long before they expire so a cached token is
+ * still valid for the requests made with it.
+ */
+const TOKEN_REFRESH_MARGIN = 5 * 60 * 1000;
+
+/**
+ * Caches the installation access tokens minted by `@octokit/auth-app`, keyed by installation id, so the same token is
+ * reused until it is about to expire. The auth strategy stores each token as `<token>|<createdAt>|<expiresAt>|...`.
+ */
+export class InstallationTokenCache {
+  private _tokens = new Map<string, string>();
+
+  get(key: string): string {
+    const value = this._tokens.get(key);
+    if (!value) {
+      // The auth strategy mints a new token when the cache returns an empty value
+      return "";
+    }
+    const expiresAt = Date.parse(value.split("|")[2]);
+    if (Number.isNaN(expiresAt) || expiresAt - TOKEN_REFRESH_MARGIN <= Date.now()) {
+      this._tokens.delete(key);
+      return "";
+    }
+    return value;
+  }
+
+  set(key: string, value: string) {
+    this._tokens.set(key, value);
+  }
+}
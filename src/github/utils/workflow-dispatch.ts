@@ -1,5 +1,8 @@
-import { customOctokit } from "../github-client";
 import { GitHubContext } from "../github-context";
+import { Value } from "@sinclair/typebox/value";
+import { workerOutputSchema } from "../types/plugin";
+import { DispatchErrorKind } from "../types/plugin-configuration";
+import { cacheDefaultBranch, getDefaultBranchFromCache, getInstallationOctokit } from "./installations";
 
 interface WorkflowDispatchOptions {
   owner: string;
@@ -7,21 +10,28 @@ interface WorkflowDispatchOptions {
   workflowId: string;
   ref?: string;
   inputs?: { [key: string]: string };
+  /**
+   * Milliseconds after which the dispatch request is aborted.
+   */
+  timeout?: number;
 }
 
-async function getInstallationOctokitForOrg(context: GitHubContext, owner: string): Promise<InstanceType<typeof customOctokit>> {
-  const installations = await context.octokit.rest.apps.listInstallations();
-  const installation = installations.data.find((inst) => inst.account?.login === owner);
-
-  if (!installation) {
-    throw new Error(`No installation found for owner: ${owner}`);
+/**
+ * Error thrown when a plugin cannot be dispatched, with its kind telling whether it is worth retrying.
+ */
+export class DispatchError extends Error {
+  constructor(
+    message: string,
+    readonly kind: DispatchErrorKind,
+    readonly status?: number
+  ) {
+    super(message);
+    this.name = "DispatchError";
   }
-
-  return context.eventHandler.getAuthenticatedOctokit(installation.id);
 }
 
 export async function dispatchWorkflow(context: GitHubContext, options: WorkflowDispatchOptions) {
-  const authenticatedOctokit = await getInstallationOctokitForOrg(context, options.owner);
+  const authenticatedOctokit = await getInstallationOctokit(context, options.owner, options.repository);
 
   return await authenticatedOctokit.rest.actions.createWorkflowDispatch({
     owner: options.owner,
@@ -29,25 +39,65 @@ export async function dispatchWorkflow(context: GitHubContext, options: Workflow
     workflow_id: options.workflowId,
     ref: options.ref ?? (await getDefaultBranch(context, options.owner, options.repository)),
     inputs: options.inputs,
+    request: options.timeout ? { signal: AbortSignal.timeout(options.timeout) } : undefined,
   });
 }
 
-export async function dispatchWorker(targetUrl: string, payload?: Record<string, unknown>) {
+export async function dispatchWorker(targetUrl: string, payload?: Record<string, unknown>, timeout?: number) {
   const result = await fetch(targetUrl, {
     body: JSON.stringify(payload),
     method: "POST",
     headers: {
       "Content-Type": "application/json",
     },
+    signal: timeout ? AbortSignal.timeout(timeout) : undefined,
   });
+  if (!result.ok) {
+    // Plugins built with the SDK answer with an error envelope when their handler throws, which is their output
+    const body = await result.json().catch(() => null);
+    if (Value.Check(workerOutputSchema, body) && body.error) {
+      return body;
+    }
+    throw new DispatchError(`Worker ${targetUrl} responded with status ${result.status}`, getStatusErrorKind(result.status), result.status);
+  }
   return result.json();
 }
 
+/**
+ * Sorts out the errors thrown while dispatching a plugin: aborted requests timed out, GitHub API errors carry their
+ * HTTP status, and anything else could not reach the plugin at all.
+ */
+export function toDispatchError(error: unknown): DispatchError {
+  if (error instanceof DispatchError) {
+    return error;
+  }
+  const message = error instanceof Error ? error.message : String(error);
+  if (error instanceof Error && (error.name === "TimeoutError" || error.name === "AbortError")) {
+    return new DispatchError(message, "timeout");
+  }
+  if (typeof error === "object" && error !== null && "status" in error && typeof error.status === "number") {
+    return new DispatchError(message, getStatusErrorKind(error.status), error.status);
+  }
+  return new DispatchError(message, "network");
+}
+
+function getStatusErrorKind(status: number): DispatchErrorKind {
+  if (status === 429) {
+    return "rate_limit";
+  }
+  return status >= 500 ? "server" : "client";
+}
+
 export async function getDefaultBranch(context: GitHubContext, owner: string, repository: string) {
-  const octokit = await getInstallationOctokitForOrg(context, owner); // we cannot access other repos with the context's octokit
+  const cached = await getDefaultBranchFromCache(context.eventHandler, owner, repository);
+  if (cached) {
+    return cached;
+  }
+  const octokit = await getInstallationOctokit(context, owner, repository); // we cannot access other repos with the context's octokit
   const repo = await octokit.rest.repos.get({
     owner: owner,
     repo: repository,
   });
+  await cacheDefaultBranch(context.eventHandler, owner, repository, repo.data.default_branch);
   return repo.data.default_branch;
 }
@@ -0,0 +1,155 @@
+import { emitterEventNames } from "@octokit/webhooks";
+import { WebhookEventName } from "@octokit/webhooks-types";
+import { GitHubEventHandler } from "./github/github-event-handler";
+import { bindHandlers } from "./github/handlers";
+import { reconcileFailedDeliveries } from "./github/handlers/delivery-reconcile";
+import { timeoutPluginChains } from "./github/handlers/plugin-chain-timeout";
+import { handleAuditLogRequest } from "./github/routes/audit-log";
+import { handleDeliveryReplayRequest } from "./github/routes/delivery-replay";
+import { handlePluginOutputRequest } from "./github/routes/plugin-output";
+import { KernelEnv } from "./github/types/env";
+import { CachedRepository, CachedInstallation } from "./github/types/installation";
+import { ConcurrencyGroupLock, PluginChainAuditRecord, PluginChainDeadline } from "./github/types/plugin";
+import { DeliveryCursor, ProcessedDelivery, WebhookDelivery } from "./github/types/webhook-delivery";
+import { archiveDelivery, isDuplicateDelivery, processDelivery, verifyDelivery } from "./github/utils/deliveries";
+import { DeliveryProcessor, DeliveryQueue } from "./github/utils/delivery-queue";
+import { EncryptedKv, EncryptedValue } from "./github/utils/encrypted-kv";
+import { KvStoreFactory } from "./github/utils/kv-store";
+import { PluginChainStateStore } from "./github/utils/plugin-chain-state";
+import { LocalLock, StateLock } from "./github/utils/state-lock";
+import { InstallationTokenCache } from "./github/utils/token-cache";
+
+/**
+ * Installation tokens are shared by every request handled by the same Worker isolate or server process.
+ */
+const tokenCache = new InstallationTokenCache();
+
+/**
+ * Used when no lock shared by every process is given, which only protects the plugin chains handled by this process.
+ */
+const localLock = new LocalLock();
+
+/**
+ * Handles a request made to the kernel, whatever it runs on: the Cloudflare Worker and the standalone server only
+ * differ by their storage and the way deliveries get processed once acknowledged.
+ */
+export async function handleRequest(
+  request: Request,
+  env: KernelEnv,
+  eventHandler: GitHubEventHandler,
+  createQueue: (process: DeliveryProcessor) => DeliveryQueue
+) {
+  try {
+    const { pathname } = new URL(request.url);
+    const queue = createQueue((delivery) => processDelivery(eventHandler, delivery));
+    if (request.method === "GET" && pathname === "/audit-log") {
+      return await handleAuditLogRequest(request, eventHandler, env.ADMIN_SECRET);
+    } else if (request.method === "POST" && pathname.startsWith("/deliveries/")) {
+      return await handleDeliveryReplayRequest(request, eventHandler, queue, env.ADMIN_SECRET);
+    } else if (request.method === "POST" && pathname === "/plugin-outputs") {
+      return await handlePluginOutputRequest(request, eventHandler);
+    }
+    const eventName = getEventName(request);
+    const signatureSha256 = getSignature(request);
+    const id = getId(request);
+    const delivery = { id, eventName, payload: await request.text(), signature: signatureSha256 };
+    if (!(await verifyDelivery(eventHandler, delivery))) {
+      return new Response(JSON.stringify({ error: "Error: signature does not match event payload and secret" }), {
+        status: 400,
+        headers: { "content-type": "application/json" },
+      });
+    }
+    if (await isDuplicateDelivery(eventHandler, request, delivery, env.ADMIN_SECRET)) {
+      return new Response("duplicate delivery\n", { status: 200, headers: { "content-type": "text/plain" } });
+    }
+    await archiveDelivery(eventHandler, delivery);
+    bindHandlers(eventHandler);
+    // GitHub gives up on webhooks that are not answered within 10 seconds, so plugins are dispatched after answering
+    queue.enqueue(delivery);
+    return new Response("ok\n", { status: 200, headers: { "content-type": "text/plain" } });
+  } catch (error) {
+    return handleUncaughtError(error);
+  }
+}
+
+/**
+ * Jobs run every few minutes, by the cron trigger of the Worker or the timer of the standalone server.
+ */
+export async function runScheduledJobs(eventHandler: GitHubEventHandler, now = Date.now()) {
+  await timeoutPluginChains(eventHandler, now);
+  await reconcileFailedDeliveries(eventHandler, now);
+}
+
+/**
+ * The plugin chain states and the concurrency groups are read and written back within the `pluginChainLock`, so they
+ * come from `createLockedStore`, whose reads must see the writes made from anywhere else.
+ */
+export function createEventHandler(env: KernelEnv, createStore: KvStoreFactory, pluginChainLock: StateLock = localLock, createLockedStore = createStore) {
+  return new GitHubEventHandler({
+    environment: env.ENVIRONMENT,
+    webhookSecret: env.APP_WEBHOOK_SECRET.split(",").map((secret) => secret.trim()),
+    appId: env.APP_ID,
+    privateKey: env.APP_PRIVATE_KEY,
+    pluginChainState: new PluginChainStateStore(
+      new EncryptedKv(createLockedStore<EncryptedValue>("plugin-chain:", getPluginChainStateTtl(env)), env.STATE_ENCRYPTION_SECRET ?? env.APP_PRIVATE_KEY)
+    ),
+    pluginChainDeadlines: createStore<PluginChainDeadline>("plugin-chain-deadline:", getPluginChainStateTtl(env)),
+    concurrencyGroups: createLockedStore<ConcurrencyGroupLock>("concurrency-group:", getPluginChainStateTtl(env)),
+    auditLog: createStore<PluginChainAuditRecord>("audit-log:", env.AUDIT_LOG_TTL ? Number(env.AUDIT_LOG_TTL) : 60 * 60 * 24 * 30),
+    // GitHub can redeliver the webhooks of the past three days
+    deliveries: createStore<ProcessedDelivery>("delivery:", env.DELIVERY_DEDUPLICATION_TTL ? Number(env.DELIVERY_DEDUPLICATION_TTL) : 60 * 60 * 24 * 3),
+    deliveryArchive: createStore<WebhookDelivery>("delivery-archive:", env.DELIVERY_RETENTION_TTL ? Number(env.DELIVERY_RETENTION_TTL) : 60 * 60 * 24 * 7),
+    deliveryCursor: createStore<DeliveryCursor>("delivery-cursor:"),
+    // Installation events invalidate the lookups, the TTL only bounds how long a missed event goes unnoticed
+    installations: createStore<CachedInstallation>("installation:", 60 * 60 * 24),
+    defaultBranches: createStore<CachedRepository>("default-branch:", 60 * 60 * 24),
+    tokenCache,
+    pluginChainLock,
+    requireSignedOutputs: env.REQUIRE_SIGNED_OUTPUTS === "true",
+  });
+}
+
+export function handleUncaughtError(error: unknown) {
+  console.error(error);
+  let status = 500;
+  let errorMessage = "An uncaught error occurred";
+  if (error instanceof AggregateError) {
+    const err = error.errors[0];
+    errorMessage = err.message ? `${err.name}: ${err.message}` : `Error: ${errorMessage}`;
+    status = typeof err.status !== "undefined" ? err.status : 500;
+  } else {
+    errorMessage = error instanceof Error ? `${error.name}: ${error.message}` : `Error: ${error}`;
+  }
+  return new Response(JSON.stringify({ error: errorMessage }), { status: status, headers: { "content-type": "application/json" } });
+}
+
+/**
+ * Abandoned plugin chains are kept for a day by default before their store expires them.
+ */
+function getPluginChainStateTtl(env: KernelEnv): number {
+  return env.PLUGIN_CHAIN_STATE_TTL ? Number(env.PLUGIN_CHAIN_STATE_TTL) : 60 * 60 * 24;
+}
+
+function getEventName(request: Request): WebhookEventName {
+  const eventName = request.headers.get("x-github-event");
+  if (!eventName || !emitterEventNames.includes(eventName as WebhookEventName)) {
+    throw new Error(`Unsupported or missing "x-github-event" header value: ${eventName}`);
+  }
+  return eventName as WebhookEventName;
+}
+
+function getSignature(request: Request): string {
+  const signatureSha256 = request.headers.get("x-hub-signature-256");
+  if (!signatureSha256) {
+    throw new Error(`Missing "x-hub-signature-256" header`);
+  }
+  return signatureSha256;
+}
+
+function getId(request: Request): string {
+  const id = request.headers.get("x-github-delivery");
+  if (!id) {
+    throw new Error(`Missing "x-github-delivery" header`);
+  }
+  return id;
+}
@@ -7,9 +7,11 @@ import { LOG_LEVEL, LogLevel, LogReturn, Logs } from "@ubiquity-os/ubiquity-os-l
 import { config } from "dotenv";
 import { Context } from "./context";
 import { customOctokit } from "./octokit";
-import { sanitizeMetadata } from "./util";
+import { sanitizeMetadata, toPluginError } from "./util";
 import { verifySignature } from "./signature";
 import { KERNEL_PUBLIC_KEY } from "./constants";
+import { PluginError } from "../types/plugin-error";
+import { signPluginOutput, SignedPluginOutput } from "../types/output-signature";
 
 config();
 
@@ -19,6 +21,8 @@ interface Options {
   settingsSchema?: TAnySchema;
   envSchema?: TAnySchema;
   kernelPublicKey?: string;
+  // Outputs are posted to the kernel at this URL instead of being dispatched to the repository of the plugin
+  kernelUrl?: string;
 }
 
 const inputSchema = T.Object({
@@ -28,6 +32,8 @@ const inputSchema = T.Object({
   authToken: T.String(),
   settings: T.String(),
   ref: T.String(),
+  // Only sent to the plugins whose manifest enables `ubiquity:signed-outputs`
+  outputSecret: T.Optional(T.String()),
   signature: T.String(),
 });
 
@@ -41,15 +47,19 @@ export async function createActionsPlugin<TConfig = unknown, TEnv = unknown, TSu
     settingsSchema: options?.settingsSchema,
     envSchema: options?.envSchema,
     kernelPublicKey: options?.kernelPublicKey || KERNEL_PUBLIC_KEY,
+    kernelUrl: options?.kernelUrl || process.env.KERNEL_URL,
   };
 
+  const inputs = Value.Decode(inputSchema, github.context.payload.inputs);
+
+  // The kernel only accepts the outputs posted to it when they are signed, with the secret of plugins that opted in
+  const kernelUrl = inputs.outputSecret ? pluginOptions.kernelUrl : undefined;
   const pluginGithubToken = process.env.PLUGIN_GITHUB_TOKEN;
-  if (!pluginGithubToken) {
+  if (!pluginGithubToken && !kernelUrl) {
     core.setFailed("Error: PLUGIN_GITHUB_TOKEN env is not set");
     return;
   }
-
-  const inputs = Value.Decode(inputSchema, github.context.payload.inputs);
+  const outputTarget = { kernelUrl, repoToken: pluginGithubToken };
   const signature = inputs.signature;
   if (!(await verifySignature(pluginOptions.kernelPublicKey, inputs, signature))) {
     core.setFailed(`Error: Invalid signature`);
@@ -89,10 +99,9 @@ export async function createActionsPlugin<TConfig = unknown, TEnv = unknown, TSu
     logger: new Logs(pluginOptions.logLevel),
   };
 
+  let result: Record<string, unknown> | undefined;
   try {
-    const result = await handler(context);
-    core.setOutput("result", result);
-    await returnDataToKernel(pluginGithubToken, inputs.stateId, result);
+    result = await handler(context);
   } catch (error) {
     console.error(error);
 
@@ -108,9 +117,25 @@ export async function createActionsPlugin<TConfig = unknown, TEnv = unknown, TSu
       loggerError = context.logger.error(`Error: ${error}`);
     }
 
+    try {
+      await returnDataToKernel(outputTarget, inputs, undefined, toPluginError(error));
+    } catch (deliveryError) {
+      console.error("Could not return the error to the kernel", deliveryError);
+    }
+
     if (pluginOptions.postCommentOnError && loggerError) {
       await postErrorComment(context, loggerError);
     }
+    return;
+  }
+
+  core.setOutput("result", result);
+  // The handler succeeded, so failing to deliver its output is not reported back as an error of the plugin
+  try {
+    await returnDataToKernel(outputTarget, inputs, result);
+  } catch (error) {
+    console.error(error);
+    core.setFailed(`Error: could not return the output to the kernel: ${error}`);
   }
 }
 
@@ -131,15 +156,42 @@ function getGithubWorkflowRunUrl() {
   return `${github.context.payload.repository?.html_url}/actions/runs/${github.context.runId}`;
 }
 
-async function returnDataToKernel(repoToken: string, stateId: string, output: object | undefined) {
-  const octokit = new customOctokit({ auth: repoToken });
+/**
+ * The output is signed with the `outputSecret` of the inputs, which the kernel requires to accept it. It is posted to
+ * the kernel when its URL is known, which does not need any GitHub token, and dispatched to the repository of the
+ * plugin otherwise.
+ */
+async function returnDataToKernel(
+  target: { kernelUrl?: string; repoToken?: string },
+  inputs: { stateId: string; outputSecret?: string },
+  output: object | undefined,
+  error?: PluginError
+) {
+  const payload: SignedPluginOutput = {
+    state_id: inputs.stateId,
+    output: output ? JSON.stringify(output) : null,
+    ...(error && { error }),
+  };
+  const signedPayload = {
+    ...payload,
+    ...(inputs.outputSecret && { signature: await signPluginOutput(inputs.outputSecret, payload) }),
+  };
+  if (target.kernelUrl) {
+    const response = await fetch(new URL("/plugin-outputs", target.kernelUrl), {
+      method: "POST",
+      headers: { "content-type": "application/json" },
+      body: JSON.stringify(signedPayload),
+    });
+    if (!response.ok) {
+      throw new Error(`The kernel refused the output: ${response.status} ${await response.text()}`);
+    }
+    return;
+  }
+  const octokit = new customOctokit({ auth: target.repoToken });
   await octokit.rest.repos.createDispatchEvent({
     owner: github.context.repo.owner,
     repo: github.context.repo.repo,
     event_type: "return-data-to-ubiquity-os-kernel",
-    client_payload: {
-      state_id: stateId,
-      output: output ? JSON.stringify(output) : null,
-    },
+    client_payload: signedPayload,
   });
 }
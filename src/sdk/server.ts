@@ -11,6 +11,7 @@ import { customOctokit } from "./octokit";
 import { verifySignature } from "./signature";
 import { env as honoEnv } from "hono/adapter";
 import { postComment } from "./comment";
+import { toPluginError } from "./util";
 import { Type as T } from "@sinclair/typebox";
 
 interface Options {
@@ -120,7 +121,8 @@ export function createPlugin<TConfig = unknown, TEnv = unknown, TSupportedEvents
         await postComment(context, loggerError);
       }
 
-      throw new HTTPException(500, { message: "Unexpected error" });
+      // The kernel reads the error envelope to decide whether the chain carries on
+      return ctx.json({ stateId: inputs.stateId, output: null, error: toPluginError(error) }, 500);
     }
   });
 
@@ -1,5 +1,18 @@
 import { LogReturn } from "@ubiquity-os/ubiquity-os-logger";
+import { PluginError } from "../types/plugin-error";
 
 export function sanitizeMetadata(obj: LogReturn["metadata"]): string {
   return JSON.stringify(obj, null, 2).replace(/</g, "&lt;").replace(/>/g, "&gt;").replace(/--/g, "&#45;&#45;");
 }
+
+/**
+ * Builds the error envelope returned to the kernel when the handler of a plugin throws.
+ */
+export function toPluginError(error: unknown): PluginError {
+  if (error instanceof LogReturn) {
+    return { name: "LogReturn", message: error.logMessage.raw, metadata: error.metadata ? JSON.parse(JSON.stringify(error.metadata)) : undefined };
+  } else if (error instanceof Error) {
+    return { name: error.name, message: error.message };
+  }
+  return { name: "Error", message: String(error) };
+}
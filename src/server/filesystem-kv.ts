@@ -0,0 +1,81 @@
+import { mkdir, readdir, readFile, rename, rm, writeFile } from "node:fs/promises";
+import { join } from "node:path";
+import { KvStore } from "../github/utils/kv-store";
+
+type Entry = {
+  value: unknown;
+  expiresAt?: number;
+};
+
+/**
+ * FileSystemKv keeps each value in its own JSON file of `directory`, named after its key, so it survives restarts of a
+ * single kernel process without any database.
+ *
+ * @template T - The type of the values being stored.
+ */
+export class FileSystemKv<T> implements KvStore<T> {
+  private _directory: string;
+  private _prefix: string;
+  private _expirationTtl: number | undefined;
+
+  constructor(directory: string, options?: { prefix?: string; expirationTtl?: number }) {
+    this._directory = directory;
+    this._prefix = options?.prefix ?? "";
+    this._expirationTtl = options?.expirationTtl;
+  }
+
+  async get(id: string): Promise<T | null> {
+    let entry: Entry;
+    try {
+      entry = JSON.parse(await readFile(this._getPath(id), "utf8"));
+    } catch (error) {
+      if (isMissingFileError(error)) return null;
+      throw error;
+    }
+    if (entry.expiresAt !== undefined && entry.expiresAt <= Date.now()) {
+      await this.delete(id);
+      return null;
+    }
+    return entry.value as T;
+  }
+
+  async put(id: string, state: T): Promise<void> {
+    const entry: Entry = { value: state, expiresAt: this._expirationTtl ? Date.now() + this._expirationTtl * 1000 : undefined };
+    await mkdir(this._directory, { recursive: true });
+    // Writing to a temporary file first keeps readers from ever seeing a half written value
+    const path = this._getPath(id);
+    const temporaryPath = `${path}.${crypto.randomUUID()}.tmp`;
+    await writeFile(temporaryPath, JSON.stringify(entry));
+    await rename(temporaryPath, path);
+  }
+
+  async delete(id: string): Promise<void> {
+    await rm(this._getPath(id), { force: true });
+  }
+
+  async list(prefix = "", limit = Infinity): Promise<string[]> {
+    let files: string[];
+    try {
+      files = await readdir(this._directory);
+    } catch (error) {
+      if (isMissingFileError(error)) return [];
+      throw error;
+    }
+    const ids = files
+      .filter((file) => file.endsWith(".json"))
+      .map((file) => decodeURIComponent(file.slice(0, -".json".length)))
+      .filter((key) => key.startsWith(this._prefix + prefix))
+      .map((key) => key.slice(this._prefix.length))
+      .sort();
+    const values = await Promise.all(ids.map((id) => this.get(id)));
+    return ids.filter((id, i) => values[i] !== null).slice(0, limit);
+  }
+
+  private _getPath(id: string) {
+    return join(this._directory, `${encodeURIComponent(this._prefix + id)}.json`);
+  }
+}
+
+function isMissingFileError(error: unknown) {
+  return typeof error === "object" && error !== null && "code" in error && error.code === "ENOENT";
+}
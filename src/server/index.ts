@@ -0,0 +1,74 @@
+import { serve } from "@hono/node-server";
+import { Value } from "@sinclair/typebox/value";
+import { createClient } from "redis";
+import { ServerEnv, serverEnvSchema } from "../github/types/env";
+import { InProcessQueue } from "../github/utils/delivery-queue";
+import { KvStore, KvStoreFactory, MemoryKv } from "../github/utils/kv-store";
+import { createEventHandler, handleRequest, runScheduledJobs } from "../kernel";
+import { FileSystemKv } from "./filesystem-kv";
+import { RedisKv } from "./redis-kv";
+
+/**
+ * Same schedule as the cron trigger of the Worker.
+ */
+const SCHEDULED_JOBS_INTERVAL = 5 * 60 * 1000;
+
+/**
+ * Runs the kernel as a standalone HTTP server on Node.js or Bun, for teams hosting it on their own infrastructure. The
+ * storage is picked with `KV_STORE`, and deliveries are processed within the server process once acknowledged.
+ */
+async function main() {
+  const env = getServerEnv();
+  const createStore = await createStoreFactory(env);
+
+  serve({
+    port: Number(env.PORT),
+    fetch: (request) => handleRequest(request, env, createEventHandler(env, createStore), (process) => new InProcessQueue(process)),
+  });
+  console.log(`Kernel listening on port ${env.PORT} with the ${env.KV_STORE} store`);
+
+  setInterval(() => {
+    runScheduledJobs(createEventHandler(env, createStore)).catch((error) => console.error("An error occurred while running the scheduled jobs", error));
+  }, SCHEDULED_JOBS_INTERVAL);
+}
+
+function getServerEnv(): ServerEnv {
+  const env = Value.Default(serverEnvSchema, { ...process.env });
+  if (!Value.Check(serverEnvSchema, env)) {
+    console.error("Invalid environment variables", [...Value.Errors(serverEnvSchema, env)]);
+    throw new Error("Invalid environment variables");
+  }
+  if (env.KV_STORE === "redis" && !env.REDIS_URL) {
+    throw new Error("REDIS_URL is required by the redis store");
+  }
+  return env;
+}
+
+/**
+ * Stores are created once for the lifetime of the server, since the in-memory ones only live as long as their instance.
+ */
+async function createStoreFactory(env: ServerEnv): Promise<KvStoreFactory> {
+  const stores = new Map<string, KvStore<unknown>>();
+  let createStore: (prefix: string, expirationTtl?: number) => KvStore<unknown>;
+  if (env.KV_STORE === "redis") {
+    const client = createClient({ url: env.REDIS_URL });
+    client.on("error", (error) => console.error("Redis client error", error));
+    await client.connect();
+    createStore = (prefix, expirationTtl) => new RedisKv(client, { prefix, expirationTtl });
+  } else if (env.KV_STORE === "filesystem") {
+    createStore = (prefix, expirationTtl) => new FileSystemKv(env.KV_STORE_PATH, { prefix, expirationTtl });
+  } else {
+    createStore = (prefix, expirationTtl) => new MemoryKv({ expirationTtl });
+  }
+  return <T>(prefix: string, expirationTtl?: number) => {
+    if (!stores.has(prefix)) {
+      stores.set(prefix, createStore(prefix, expirationTtl));
+    }
+    return stores.get(prefix) as KvStore<T>;
+  };
+}
+
+main().catch((error) => {
+  console.error(error);
+  process.exit(1);
+});
@@ -0,0 +1,48 @@
+import { createClient } from "redis";
+import { KvStore } from "../github/utils/kv-store";
+
+export type RedisClient = Pick<ReturnType<typeof createClient>, "get" | "set" | "del" | "scanIterator">;
+
+/**
+ * RedisKv keeps the values in Redis, which lets several kernel processes share them. Values expire through the TTL of
+ * their key.
+ *
+ * @template T - The type of the values being stored.
+ */
+export class RedisKv<T> implements KvStore<T> {
+  private _client: RedisClient;
+  private _prefix: string;
+  private _expirationTtl: number | undefined;
+
+  constructor(client: RedisClient, options?: { prefix?: string; expirationTtl?: number }) {
+    this._client = client;
+    this._prefix = options?.prefix ?? "";
+    this._expirationTtl = options?.expirationTtl;
+  }
+
+  async get(id: string): Promise<T | null> {
+    const value = await this._client.get(this._prefix + id);
+    return value === null ? null : JSON.parse(value);
+  }
+
+  async put(id: string, state: T): Promise<void> {
+    await this._client.set(this._prefix + id, JSON.stringify(state), this._expirationTtl ? { EX: this._expirationTtl } : undefined);
+  }
+
+  async delete(id: string): Promise<void> {
+    await this._client.del(this._prefix + id);
+  }
+
+  /**
+   * Redis scans keys in no particular order, so every key matching the prefix is read before they get sorted.
+   */
+  async list(prefix = "", limit = Infinity): Promise<string[]> {
+    const ids: string[] = [];
+    // Glob characters of the prefix are escaped so they only match themselves
+    const pattern = `${(this._prefix + prefix).replace(/[*?[\]\\]/g, "\\$&")}*`;
+    for await (const key of this._client.scanIterator({ MATCH: pattern, COUNT: 100 })) {
+      ids.push(key.slice(this._prefix.length));
+    }
+    return ids.sort().slice(0, limit);
+  }
+}
@@ -9,11 +9,29 @@ export const commandSchema = T.Object({
   "ubiquity:example": T.String({ minLength: 1 }),
 });
 
+export const permissionLevelSchema = T.Union([T.Literal("read"), T.Literal("write")]);
+
 export const manifestSchema = T.Object({
   name: T.String({ minLength: 1 }),
   description: T.Optional(T.String({ default: "" })),
   commands: T.Optional(T.Record(T.String(), commandSchema, { default: {} })),
   "ubiquity:listeners": T.Optional(T.Array(runEvent, { default: [] })),
+  "ubiquity:timeout": T.Optional(T.Integer({ minimum: 1, description: "Seconds the kernel waits for the plugin output before the chain times out" })),
+  "ubiquity:permissions": T.Optional(
+    T.Record(T.String({ pattern: "^[a-z_]+$" }), permissionLevelSchema, {
+      description: "Permissions of the installation token given to the plugin, which gets every permission of the app when omitted",
+    })
+  ),
+  "ubiquity:repository-scope": T.Optional(
+    T.Union([T.Literal("event"), T.Literal("installation")], {
+      description: "Repositories the token of a plugin declaring its permissions can access, only the repository of the event by default",
+    })
+  ),
+  "ubiquity:signed-outputs": T.Optional(
+    T.Boolean({
+      description: "Whether the workflow of the plugin declares the `outputSecret` input, whose outputs must then be signed with it",
+    })
+  ),
   configuration: T.Optional(T.Record(T.String(), T.Any(), { default: {} })),
 });
 
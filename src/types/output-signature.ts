@@ -0,0 +1,63 @@
+import { PluginError } from "./plugin-error";
+
+/**
+ * Fields of the `client_payload` returned by an Action plugin that are covered by its signature.
+ */
+export type SignedPluginOutput = {
+  state_id: string;
+  output: string | null;
+  error?: PluginError;
+};
+
+/**
+ * Every dispatch of an Action plugin carries a fresh `outputSecret`, known only to the kernel and to the run of the
+ * plugin, which signs the output it returns with it.
+ */
+export function createOutputSecret() {
+  return toHex(crypto.getRandomValues(new Uint8Array(32)));
+}
+
+/**
+ * Signs the output as `sha256=` followed by the hex HMAC-SHA256 of its fields, serialized with sorted keys so the
+ * signature does not depend on the order GitHub gives them back in.
+ */
+export async function signPluginOutput(secret: string, payload: SignedPluginOutput) {
+  const key = await importOutputKey(secret, "sign");
+  const signature = await crypto.subtle.sign("HMAC", key, getSignedData(payload));
+  return `sha256=${toHex(new Uint8Array(signature))}`;
+}
+
+export async function verifyPluginOutput(secret: string, payload: SignedPluginOutput, signature: string) {
+  const hex = signature.startsWith("sha256=") ? signature.slice("sha256=".length) : "";
+  if (!/^([0-9a-f]{2})+$/i.test(hex)) {
+    return false;
+  }
+  const key = await importOutputKey(secret, "verify");
+  const signatureBytes = new Uint8Array(hex.match(/../g)?.map((byte) => parseInt(byte, 16)) ?? []);
+  return crypto.subtle.verify("HMAC", key, signatureBytes, getSignedData(payload));
+}
+
+function importOutputKey(secret: string, usage: "sign" | "verify") {
+  return crypto.subtle.importKey("raw", new TextEncoder().encode(secret), { name: "HMAC", hash: "SHA-256" }, false, [usage]);
+}
+
+function getSignedData({ state_id: stateId, output, error }: SignedPluginOutput) {
+  return new TextEncoder().encode(stringifySorted([stateId, output, error ?? null]));
+}
+
+function stringifySorted(value: unknown): string {
+  if (Array.isArray(value)) {
+    return `[${value.map((item) => stringifySorted(item ?? null)).join(",")}]`;
+  }
+  if (typeof value === "object" && value !== null) {
+    const entries = Object.entries(value)
+      .filter(([, item]) => item !== undefined)
+      .sort(([a], [b]) => (a < b ? -1 : 1));
+    return `{${entries.map(([key, item]) => JSON.stringify(key) + ":" + stringifySorted(item)).join(",")}}`;
+  }
+  return JSON.stringify(value);
+}
+
+function toHex(bytes: Uint8Array) {
+  return [...bytes].map((byte) => byte.toString(16).padStart(2, "0")).join("");
+}
@@ -0,0 +1,12 @@
+import { type Static, Type as T } from "@sinclair/typebox";
+
+/**
+ * Envelope sent back to the kernel by the SDK when the handler of a plugin throws, instead of its output.
+ */
+export const pluginErrorSchema = T.Object({
+  name: T.String(),
+  message: T.String(),
+  metadata: T.Optional(T.Record(T.String(), T.Unknown())),
+});
+
+export type PluginError = Static<typeof pluginErrorSchema>;
@@ -0,0 +1,49 @@
+import { LocalLock, StateLockObject } from "../../src/github/utils/state-lock";
+
+/**
+ * In-memory stand-in for the namespace of the `StateLockObject` Durable Objects. Requests to the same Durable Object
+ * are processed one at a time, like their input gates do, and alarms only go off when `runAlarms` is called.
+ */
+export class DurableObjectNamespaceMock {
+  private _objects = new Map<string, { object: StateLockObject; alarm: { time: number | null } }>();
+  private _inputGates = new LocalLock();
+
+  idFromName(name: string) {
+    return name;
+  }
+
+  get(name: string) {
+    const { object } = this._getObject(name);
+    return { fetch: (url: string, init: RequestInit) => this._inputGates.withLock(name, () => object.fetch(new Request(url, init))) };
+  }
+
+  async runAlarms(now = Date.now()) {
+    for (const [name, { object, alarm }] of this._objects) {
+      if (alarm.time !== null && alarm.time <= now) {
+        alarm.time = null;
+        await this._inputGates.withLock(name, () => object.alarm());
+      }
+    }
+  }
+
+  asNamespace() {
+    return this as unknown as DurableObjectNamespace;
+  }
+
+  private _getObject(name: string) {
+    let entry = this._objects.get(name);
+    if (!entry) {
+      const values = new Map<string, unknown>();
+      const alarm = { time: null as number | null };
+      const storage = {
+        get: async (key: string) => values.get(key),
+        put: async (key: string, value: unknown) => void values.set(key, structuredClone(value)),
+        delete: async (key: string) => values.delete(key),
+        setAlarm: async (time: number) => void (alarm.time = time),
+      };
+      entry = { object: new StateLockObject({ storage } as unknown as DurableObjectState), alarm };
+      this._objects.set(name, entry);
+    }
+    return entry;
+  }
+}
@@ -4,6 +4,7 @@ import { http, HttpResponse } from "msw";
 import manifest from "./manifest.json";
 
 type KernelInput = {
+  stateId: string;
   authToken: string;
   eventPayload: {
     issue: {
@@ -40,8 +41,8 @@ const handlers = [
     });
 
     return HttpResponse.json({
-      state_id: "state_id_uuid_1",
-      output: `{ "result": "success", "message": "${body.settings.response}" }`,
+      stateId: body.stateId,
+      output: { result: "success", message: body.settings.response },
     });
   }),
   http.get("/manifest.json", () => {
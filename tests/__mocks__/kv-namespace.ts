@@ -0,0 +1,61 @@
+/**
+ * Cloudflare KV answers 429 to more than one write per second to the same key.
+ */
+const MIN_WRITE_INTERVAL = 1000;
+
+/**
+ * In-memory stand-in for a Cloudflare KV namespace, honoring expiration TTLs and the write rate limit of each key, and
+ * listing keys in pages sorted like KV does.
+ */
+export class KvNamespaceMock {
+  private _values = new Map<string, { value: string; expiration?: number }>();
+  private _writtenAt = new Map<string, number>();
+
+  async get(key: string, type?: "text" | "json") {
+    const entry = this._values.get(key);
+    if (!entry) {
+      return null;
+    }
+    if (entry.expiration !== undefined && entry.expiration <= Date.now()) {
+      this._values.delete(key);
+      return null;
+    }
+    return type === "json" ? JSON.parse(entry.value) : entry.value;
+  }
+
+  async put(key: string, value: string, options?: KVNamespacePutOptions) {
+    this._write(key, "PUT");
+    this._values.set(key, {
+      value,
+      expiration: options?.expirationTtl ? Date.now() + options.expirationTtl * 1000 : undefined,
+    });
+  }
+
+  async delete(key: string) {
+    this._write(key, "DELETE");
+    this._values.delete(key);
+  }
+
+  async list(options?: KVNamespaceListOptions) {
+    const names = [...this._values.entries()]
+      .filter(([name, { expiration }]) => (!options?.prefix || name.startsWith(options.prefix)) && (expiration === undefined || expiration > Date.now()))
+      .map(([name]) => name)
+      .sort();
+    const start = options?.cursor ? Number(options.cursor) : 0;
+    const end = start + (options?.limit ?? 1000);
+    const keys = names.slice(start, end).map((name) => ({ name }));
+    return end < names.length ? { keys, list_complete: false, cursor: String(end), cacheStatus: null } : { keys, list_complete: true, cacheStatus: null };
+  }
+
+  asNamespace() {
+    return this as unknown as KVNamespace;
+  }
+
+  private _write(key: string, method: string) {
+    const writtenAt = this._writtenAt.get(key);
+    if (writtenAt !== undefined && Date.now() - writtenAt < MIN_WRITE_INTERVAL) {
+      throw new Error(`KV ${method} failed: 429 Too Many Requests`);
+    }
+    this._writtenAt.set(key, Date.now());
+  }
+}
@@ -0,0 +1,53 @@
+import { jest } from "@jest/globals";
+import { GitHubContext } from "../../src/github/github-context";
+import { GitHubEventHandler } from "../../src/github/github-event-handler";
+import { ConcurrencyGroupLock, PluginChainAuditRecord, PluginChainDeadline, PluginChainState } from "../../src/github/types/plugin";
+import { PluginChain } from "../../src/github/types/plugin-configuration";
+import { CloudflareKv } from "../../src/github/utils/kv-store";
+import { DurableObjectKv, LocalLock } from "../../src/github/utils/state-lock";
+import { DurableObjectNamespaceMock } from "./durable-object-namespace";
+import { KvNamespaceMock } from "./kv-namespace";
+
+/**
+ * Event handler of the plugin chain tests, keeping its stores in memory and answering the GitHub App calls with fixed
+ * tokens. Like in the Worker, the chain states and the concurrency groups are kept in Durable Objects. The contexts
+ * built from the events of the chains only carry the event handler.
+ */
+export function createEventHandler(overrides: Record<string, unknown> = {}) {
+  const namespace = new KvNamespaceMock().asNamespace();
+  const objects = new DurableObjectNamespaceMock().asNamespace();
+  const eventHandler = {
+    pluginChainState: new DurableObjectKv<PluginChainState>(objects, { prefix: "plugin-chain:" }),
+    pluginChainDeadlines: new CloudflareKv<PluginChainDeadline>(namespace, { prefix: "plugin-chain-deadline:" }),
+    pluginChainLock: new LocalLock(),
+    concurrencyGroups: new DurableObjectKv<ConcurrencyGroupLock>(objects, { prefix: "concurrency-group:" }),
+    auditLog: new CloudflareKv<PluginChainAuditRecord>(namespace, { prefix: "audit-log:" }),
+    getToken: jest.fn(() => Promise.resolve("token")),
+    signPayload: jest.fn(() => Promise.resolve("signature")),
+    ...overrides,
+  } as unknown as GitHubEventHandler;
+  const context = { eventHandler } as unknown as GitHubContext;
+  Object.assign(eventHandler, { transformEvent: jest.fn(() => context) });
+  return eventHandler;
+}
+
+export function createContext(eventHandler = createEventHandler()) {
+  return eventHandler.transformEvent({} as never);
+}
+
+export function createPluginChainState(pluginChain: PluginChain, state: Partial<PluginChainState> = {}): PluginChainState {
+  return {
+    eventId: "event-id",
+    eventName: "issue_comment.created",
+    eventPayload: { installation: { id: 1 } } as PluginChainState["eventPayload"],
+    status: "in_progress",
+    currentPlugin: 0,
+    pluginChain,
+    skippedPlugins: [],
+    deadlines: new Array(pluginChain.length),
+    attempts: new Array(pluginChain.length),
+    outputs: new Array(pluginChain.length),
+    inputs: new Array(pluginChain.length),
+    ...state,
+  };
+}
@@ -0,0 +1,134 @@
+import { beforeEach, describe, expect, it, jest } from "@jest/globals";
+import { GitHubContext } from "../src/github/github-context";
+import { PluginChainAuditRecord, PluginChainState } from "../src/github/types/plugin";
+import { ADMIN_SIGNATURE_HEADER, ADMIN_TIMESTAMP_HEADER, signAdminRequest } from "../src/github/utils/admin-auth";
+import { CloudflareKv } from "../src/github/utils/kv-store";
+import { KvNamespaceMock } from "./__mocks__/kv-namespace";
+import { createEventHandler, createPluginChainState } from "./__mocks__/plugin-chain";
+
+const dispatchWorker = jest.fn<(url: string, payload?: Record<string, unknown>) => Promise<unknown>>();
+
+jest.mock("../src/github/utils/workflow-dispatch", () => ({
+  ...(jest.requireActual("../src/github/utils/workflow-dispatch") as object),
+  dispatchWorker,
+}));
+
+jest.mock("../src/github/utils/plugins", () => ({
+  getManifest: jest.fn(() => Promise.resolve(null)),
+}));
+
+const adminSecret = "admin-secret";
+const repository = "ubiquity-os/bot";
+const auditLogUrl = "https://kernel.internal/audit-log";
+const firstWorkerUrl = "https://plugin-a.internal";
+const secondWorkerUrl = "https://plugin-b.internal";
+
+function createState(eventId = "delivery-1", issueNumber = 1) {
+  return createPluginChainState(
+    [
+      { plugin: firstWorkerUrl, with: {}, runsOn: [] },
+      { plugin: secondWorkerUrl, if: "false", with: {}, runsOn: [] },
+    ],
+    {
+      eventId,
+      eventPayload: {
+        installation: { id: 1 },
+        issue: { number: issueNumber },
+        repository: { full_name: repository },
+      } as PluginChainState["eventPayload"],
+    }
+  );
+}
+
+async function signedRequest(path: string, secret = adminSecret) {
+  const timestamp = String(Math.floor(Date.now() / 1000));
+  const signature = await signAdminRequest(secret, timestamp, "GET", path);
+  return new Request(new URL(path, auditLogUrl), { headers: { [ADMIN_SIGNATURE_HEADER]: signature, [ADMIN_TIMESTAMP_HEADER]: timestamp } });
+}
+
+describe("Audit log tests", () => {
+  beforeEach(() => {
+    dispatchWorker.mockReset();
+    dispatchWorker.mockImplementation(async (url, payload) => ({ stateId: payload?.stateId, output: {} }));
+  });
+
+  it("Should record every transition of a chain under each of its indexes", async () => {
+    const { dispatchPluginChainStep } = await import("../src/github/utils/plugin-chain");
+    const { readAuditLog } = await import("../src/github/utils/audit-log");
+    const eventHandler = createEventHandler();
+
+    await dispatchPluginChainStep({ eventHandler } as unknown as GitHubContext, "first", createState());
+    await dispatchPluginChainStep({ eventHandler } as unknown as GitHubContext, "second", createState("delivery-2", 2));
+
+    const records = await readAuditLog(eventHandler, "delivery:delivery-1", 100);
+    expect(records.map(({ event, plugin }) => [event, plugin]).sort()).toEqual(
+      [
+        ["dispatched", 0],
+        ["output_received", 0],
+        ["skipped", 1],
+        ["completed", undefined],
+      ].sort()
+    );
+    expect(records.every((record) => record.stateId === "first" && record.repository === repository && record.issue === 1)).toEqual(true);
+    expect(await readAuditLog(eventHandler, `issue:${repository}#2`, 100)).toHaveLength(4);
+    expect(await readAuditLog(eventHandler, `repository:${repository}`, 100)).toHaveLength(8);
+    expect(await readAuditLog(eventHandler, `repository:${repository}`, 3)).toHaveLength(3);
+  });
+
+  it("Should only list the most recent records of an index", async () => {
+    const { readAuditLog, recordPluginChainEvent } = await import("../src/github/utils/audit-log");
+    const namespace = new KvNamespaceMock();
+    const listSpy = jest.spyOn(namespace, "list");
+    const eventHandler = createEventHandler({ auditLog: new CloudflareKv<PluginChainAuditRecord>(namespace.asNamespace(), { prefix: "audit-log:" }) });
+    jest.useFakeTimers();
+    for (const [time, event] of [
+      [1000, "created"],
+      [2000, "dispatched"],
+      [3000, "completed"],
+    ] as const) {
+      jest.setSystemTime(time);
+      await recordPluginChainEvent(eventHandler, "first", createState(), event);
+    }
+    jest.useRealTimers();
+
+    const records = await readAuditLog(eventHandler, "delivery:delivery-1", 2);
+    expect(records.map(({ event }) => event)).toEqual(["dispatched", "completed"]);
+    expect(listSpy).toHaveBeenCalledTimes(1);
+    expect(listSpy).toHaveBeenCalledWith(expect.objectContaining({ limit: 2 }));
+  });
+
+  it("Should only serve the audit log to signed requests", async () => {
+    const { handleAuditLogRequest } = await import("../src/github/routes/audit-log");
+    const { recordPluginChainEvent } = await import("../src/github/utils/audit-log");
+    const eventHandler = createEventHandler();
+    await recordPluginChainEvent(eventHandler, "first", createState(), "created");
+
+    const response = await handleAuditLogRequest(await signedRequest(`/audit-log?repository=${repository}&issue=1`), eventHandler, adminSecret);
+    expect(response.status).toEqual(200);
+    expect(await response.json()).toEqual({ records: [expect.objectContaining({ event: "created", stateId: "first", deliveryId: "delivery-1" })] });
+
+    expect((await handleAuditLogRequest(new Request(`${auditLogUrl}?delivery=delivery-1`), eventHandler, adminSecret)).status).toEqual(401);
+    expect((await handleAuditLogRequest(await signedRequest("/audit-log?delivery=delivery-1", "wrong"), eventHandler, adminSecret)).status).toEqual(401);
+    expect((await handleAuditLogRequest(await signedRequest("/audit-log?delivery=delivery-1"), eventHandler)).status).toEqual(401);
+    expect((await handleAuditLogRequest(await signedRequest("/audit-log"), eventHandler, adminSecret)).status).toEqual(400);
+  });
+
+  it("Should keep the limit of records within its bounds", async () => {
+    const { handleAuditLogRequest } = await import("../src/github/routes/audit-log");
+    const { recordPluginChainEvent } = await import("../src/github/utils/audit-log");
+    const eventHandler = createEventHandler();
+    for (const event of ["created", "dispatched", "output_received", "completed"] as const) {
+      await recordPluginChainEvent(eventHandler, "first", createState(), event);
+    }
+
+    for (const [limit, count] of [
+      ["2", 2],
+      ["-1", 1],
+      ["0.5", 4],
+      ["none", 4],
+    ] as const) {
+      const response = await handleAuditLogRequest(await signedRequest(`/audit-log?delivery=delivery-1&limit=${limit}`), eventHandler, adminSecret);
+      expect(((await response.json()) as { records: unknown[] }).records).toHaveLength(count);
+    }
+  });
+});
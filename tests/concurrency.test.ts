@@ -0,0 +1,142 @@
+import { beforeEach, describe, expect, it, jest } from "@jest/globals";
+import { GitHubContext } from "../src/github/github-context";
+import { PluginChainState } from "../src/github/types/plugin";
+import { createEventHandler, createPluginChainState } from "./__mocks__/plugin-chain";
+
+const dispatchWorker = jest.fn<(url: string, payload?: Record<string, unknown>) => Promise<unknown>>();
+const dispatchWorkflow = jest.fn(() => Promise.resolve());
+
+jest.mock("../src/github/utils/workflow-dispatch", () => ({
+  ...(jest.requireActual("../src/github/utils/workflow-dispatch") as object),
+  dispatchWorker,
+  dispatchWorkflow,
+}));
+
+jest.mock("../src/github/utils/plugins", () => ({
+  getManifest: jest.fn(() => Promise.resolve(null)),
+}));
+
+const workerUrl = "https://plugin-a.internal";
+const group = "ubiquity-os/bot:1";
+const concurrency = { group: "${{ event.issue.number }}" };
+
+function createState(issueNumber = 1) {
+  return createPluginChainState([{ plugin: workerUrl, with: {}, runsOn: [] }], {
+    eventPayload: {
+      installation: { id: 1 },
+      issue: { number: issueNumber },
+      repository: { full_name: "ubiquity-os/bot" },
+    } as PluginChainState["eventPayload"],
+  });
+}
+
+describe("Concurrency group tests", () => {
+  beforeEach(() => {
+    dispatchWorker.mockReset();
+    dispatchWorker.mockImplementation(async (url, payload) => ({ stateId: payload?.stateId, output: {} }));
+  });
+
+  it("Should queue chains of the same group until the running one is over", async () => {
+    const { acquireConcurrencyGroup } = await import("../src/github/utils/concurrency");
+    const { dispatchPluginChainStep } = await import("../src/github/utils/plugin-chain");
+    const eventHandler = createEventHandler();
+    const firstState = createState();
+    const secondState = createState();
+
+    await expect(acquireConcurrencyGroup(eventHandler, "first", firstState, concurrency)).resolves.toEqual(true);
+    await expect(acquireConcurrencyGroup(eventHandler, "second", secondState, concurrency)).resolves.toEqual(false);
+    await expect(acquireConcurrencyGroup(eventHandler, "other", createState(2), concurrency)).resolves.toEqual(true);
+    expect(await eventHandler.concurrencyGroups.get(group)).toEqual({ stateId: "first", queue: ["second"] });
+    expect((await eventHandler.pluginChainState.get("second"))?.status).toEqual("queued");
+
+    await dispatchPluginChainStep({ eventHandler } as unknown as GitHubContext, "first", firstState);
+
+    expect(dispatchWorker.mock.calls.map(([, payload]) => payload?.stateId)).toEqual(["first", "second"]);
+    expect((await eventHandler.pluginChainState.get("second"))?.status).toEqual("completed");
+    expect(await eventHandler.concurrencyGroups.get(group)).toBeNull();
+  });
+
+  it("Should wait for the lock of a queued chain before dispatching it", async () => {
+    const { acquireConcurrencyGroup } = await import("../src/github/utils/concurrency");
+    const { dispatchPluginChainStep } = await import("../src/github/utils/plugin-chain");
+    const eventHandler = createEventHandler();
+    const firstState = createState();
+    await acquireConcurrencyGroup(eventHandler, "first", firstState, concurrency);
+    await acquireConcurrencyGroup(eventHandler, "second", createState(), concurrency);
+    let unlock: (() => void) | undefined;
+    const lockedChain = eventHandler.pluginChainLock.withLock("second", () => new Promise<void>((resolve) => (unlock = resolve)));
+
+    const firstChain = dispatchPluginChainStep({ eventHandler } as unknown as GitHubContext, "first", firstState);
+    await new Promise((resolve) => setTimeout(resolve, 10));
+    expect(dispatchWorker.mock.calls.map(([, payload]) => payload?.stateId)).toEqual(["first"]);
+
+    unlock?.();
+    await Promise.all([lockedChain, firstChain]);
+    expect(dispatchWorker.mock.calls.map(([, payload]) => payload?.stateId)).toEqual(["first", "second"]);
+  });
+
+  it("Should let a single chain run when several acquire the same group at the same time", async () => {
+    const { acquireConcurrencyGroup } = await import("../src/github/utils/concurrency");
+    const eventHandler = createEventHandler();
+
+    const acquired = await Promise.all([
+      acquireConcurrencyGroup(eventHandler, "first", createState(), concurrency),
+      acquireConcurrencyGroup(eventHandler, "second", createState(), concurrency),
+    ]);
+
+    expect(acquired).toEqual([true, false]);
+    expect(await eventHandler.concurrencyGroups.get(group)).toEqual({ stateId: "first", queue: ["second"] });
+  });
+
+  it("Should cancel the running chain of the group when asked to", async () => {
+    const { acquireConcurrencyGroup } = await import("../src/github/utils/concurrency");
+    const { handlePluginOutput } = await import("../src/github/utils/plugin-chain");
+    const eventHandler = createEventHandler();
+    const firstState = createState();
+    await acquireConcurrencyGroup(eventHandler, "first", firstState, concurrency);
+
+    await expect(acquireConcurrencyGroup(eventHandler, "second", createState(), { ...concurrency, cancelInProgress: true })).resolves.toEqual(true);
+
+    expect(await eventHandler.concurrencyGroups.get(group)).toEqual({ stateId: "second", queue: [] });
+    const cancelledState = (await eventHandler.pluginChainState.get("first")) as PluginChainState;
+    expect(cancelledState.status).toEqual("cancelled");
+    await handlePluginOutput({ eventHandler } as unknown as GitHubContext, cancelledState, { state_id: "first", output: {} });
+    expect((await eventHandler.pluginChainState.get("first"))?.outputs[0]).toBeFalsy();
+  });
+
+  it("Should cancel the running chain of the group right after it dispatched an Action plugin", async () => {
+    const { acquireConcurrencyGroup } = await import("../src/github/utils/concurrency");
+    const { dispatchPluginChainStep } = await import("../src/github/utils/plugin-chain");
+    const { timeoutPluginChains } = await import("../src/github/handlers/plugin-chain-timeout");
+    const eventHandler = createEventHandler();
+    const firstState = createPluginChainState(
+      [{ plugin: { owner: "ubiquity-os", repo: "action", workflowId: "compute.yml", ref: "main" }, with: {}, runsOn: [] }],
+      {
+        eventPayload: createState().eventPayload,
+      }
+    );
+    await acquireConcurrencyGroup(eventHandler, "first", firstState, concurrency);
+    await dispatchPluginChainStep({ eventHandler } as unknown as GitHubContext, "first", firstState);
+    await expect(eventHandler.pluginChainDeadlines.list()).resolves.toEqual(["first"]);
+
+    // KV refuses to drop the deadline written less than a second ago, which must not stop the new chain
+    await expect(acquireConcurrencyGroup(eventHandler, "second", createState(), { ...concurrency, cancelInProgress: true })).resolves.toEqual(true);
+    expect((await eventHandler.pluginChainState.get("first"))?.status).toEqual("cancelled");
+
+    const deadline = firstState.deadlines[0];
+    const dateSpy = jest.spyOn(Date, "now").mockReturnValue(deadline + 1);
+    await timeoutPluginChains(eventHandler, deadline + 1);
+    await expect(eventHandler.pluginChainDeadlines.list()).resolves.toEqual([]);
+    expect((await eventHandler.pluginChainState.get("first"))?.status).toEqual("cancelled");
+    dateSpy.mockRestore();
+  });
+
+  it("Should take over the locks of chains that are over", async () => {
+    const { acquireConcurrencyGroup } = await import("../src/github/utils/concurrency");
+    const eventHandler = createEventHandler();
+    await eventHandler.concurrencyGroups.put(group, { stateId: "expired", queue: [] });
+
+    await expect(acquireConcurrencyGroup(eventHandler, "first", createState(), concurrency)).resolves.toEqual(true);
+    expect(await eventHandler.concurrencyGroups.get(group)).toEqual({ stateId: "first", queue: [] });
+  });
+});
@@ -13,6 +13,7 @@ config({ path: ".dev.vars" });
 
 const issueOpened = "issues.opened";
 const manifestPath = "manifest.json";
+const invalidExpression = "Invalid expression";
 const repo = {
   owner: { login: "ubiquity" },
   name: "conversation-rewards",
@@ -303,4 +304,98 @@ describe("Configuration tests", () => {
     const cfg2 = await getConfig(context);
     expect(cfg2.plugins[0].uses[0].plugin).toMatchObject({ owner: "ubiquity", repo: "production-plugin" });
   });
+  it("Should validate the conditions of the plugin chains", async () => {
+    function chain(condition: string) {
+      return `
+              - id: first
+                plugin: ubiquity/first-plugin
+                runsOn: ["issues.opened"]
+              - id: second
+                plugin: ubiquity/second-plugin
+                if: "${condition}"`;
+    }
+
+    const cfg = await getConfig(getContextWithChain(chain("${{ first.output.shouldRun && event.issue.number == 1 }}")));
+    expect(cfg.plugins[0].uses[1].if).toEqual("${{ first.output.shouldRun && event.issue.number == 1 }}");
+    await expect(getConfig(getContextWithChain(chain("${{ first.output.shouldRun && }}")))).rejects.toThrow(invalidExpression);
+    await expect(getConfig(getContextWithChain(chain("${{ second.output.shouldRun }}")))).rejects.toThrow("before it is called");
+    await expect(getConfig(getContextWithChain(chain("${{ third.output.shouldRun }}")))).rejects.toThrow("non-existent id third");
+    await expect(getConfig(getContextWithChain(chain("${{ first.inputs.shouldRun }}")))).rejects.toThrow(invalidExpression);
+  });
+  it("Should validate the groups of the plugin chains", async () => {
+    function chain(firstGroup: string, secondGroup: string, lastGroup: string, settings = "{}") {
+      return `
+              - id: first
+                group: ${firstGroup}
+                plugin: ubiquity/first-plugin
+                runsOn: ["issues.opened"]
+              - id: second
+                group: ${secondGroup}
+                plugin: ubiquity/second-plugin
+                with: ${settings}
+              - id: last
+                group: ${lastGroup}
+                plugin: ubiquity/first-plugin:other.yml
+                with:
+                  results: \${{ steps.checks.output }}`;
+    }
+
+    const cfg = await getConfig(getContextWithChain(chain("checks", "checks", "summary")));
+    expect(cfg.plugins[0].uses.map(({ group }) => group)).toEqual(["checks", "checks", "summary"]);
+    await expect(getConfig(getContextWithChain(chain("checks", "other", "checks")))).rejects.toThrow("must be made of consecutive plugins");
+    await expect(getConfig(getContextWithChain(chain("checks", "checks", "checks")))).rejects.toThrow("more than once");
+    await expect(getConfig(getContextWithChain(chain("first", "first", "summary")))).rejects.toThrow("same name as a plugin id");
+    await expect(getConfig(getContextWithChain(chain("checks", "checks", "summary", "{ value: '${{ first.output.value }}' }")))).rejects.toThrow(
+      "before it is called"
+    );
+  });
+  it("Should validate the fallbacks of the plugin chains", async () => {
+    function chain(firstFallback: boolean, secondGroup?: string) {
+      return `
+              - id: first
+                plugin: ubiquity/first-plugin
+                fallback: ${firstFallback}
+                runsOn: ["issues.opened"]
+              - id: second
+                plugin: ubiquity/second-plugin
+                fallback: true
+                ${secondGroup ? `group: ${secondGroup}` : ""}
+                with:
+                  reason: \${{ first.error.message }}`;
+    }
+
+    const cfg = await getConfig(getContextWithChain(chain(false)));
+    expect(cfg.plugins[0].uses[1].fallback).toEqual(true);
+    await expect(getConfig(getContextWithChain(chain(true)))).rejects.toThrow("cannot be a fallback");
+    await expect(getConfig(getContextWithChain(chain(false, "recovery")))).rejects.toThrow("cannot be part of the group recovery");
+  });
 });
+
+function getContextWithChain(chain: string) {
+  function getContent(args: RestEndpointMethodTypes["repos"]["getContent"]["parameters"]) {
+    if (args.path !== CONFIG_FULL_PATH) {
+      throw new Error("Not Found");
+    }
+    return {
+      data: `
+          plugins:
+            - uses:${chain}`,
+    };
+  }
+  return {
+    key: issueOpened,
+    name: issueOpened,
+    id: "",
+    payload: {
+      repository: repo,
+    } as unknown as GitHubContext<"issues.closed">["payload"],
+    octokit: {
+      rest: {
+        repos: {
+          getContent,
+        },
+      },
+    },
+    eventHandler: eventHandler,
+  } as unknown as GitHubContext;
+}
@@ -0,0 +1,108 @@
+import { describe, expect, it, jest } from "@jest/globals";
+import { GitHubEventHandler } from "../src/github/github-event-handler";
+import { PluginChainState } from "../src/github/types/plugin";
+import { ProcessedDelivery, WebhookDelivery } from "../src/github/types/webhook-delivery";
+import { ADMIN_SIGNATURE_HEADER, ADMIN_TIMESTAMP_HEADER, signAdminRequest } from "../src/github/utils/admin-auth";
+import { isDuplicateDelivery, markDeliveryProcessed, processDelivery, verifyDelivery } from "../src/github/utils/deliveries";
+import { InProcessQueue } from "../src/github/utils/delivery-queue";
+import { CloudflareKv, EmptyStore } from "../src/github/utils/kv-store";
+import { KvNamespaceMock } from "./__mocks__/kv-namespace";
+
+const adminSecret = "admin-secret";
+const kernelUrl = "https://kernel.internal/";
+const payload = JSON.stringify({ action: "created" });
+
+function createEventHandler() {
+  return new GitHubEventHandler({
+    environment: "production",
+    webhookSecret: "webhook-secret",
+    appId: "1",
+    privateKey: "private-key",
+    pluginChainState: new EmptyStore<PluginChainState>(),
+    deliveries: new CloudflareKv<ProcessedDelivery>(new KvNamespaceMock().asNamespace(), { prefix: "delivery:" }),
+  });
+}
+
+async function createDelivery(eventHandler: GitHubEventHandler): Promise<WebhookDelivery> {
+  return { id: "delivery-1", eventName: "issue_comment", payload, signature: await eventHandler.webhooks.sign(payload) };
+}
+
+describe("Delivery deduplication tests", () => {
+  it("Should skip the deliveries that were already processed", async () => {
+    const eventHandler = createEventHandler();
+    const delivery = await createDelivery(eventHandler);
+
+    await expect(isDuplicateDelivery(eventHandler, new Request(kernelUrl), delivery, adminSecret)).resolves.toEqual(false);
+    await markDeliveryProcessed(eventHandler, delivery);
+    await expect(isDuplicateDelivery(eventHandler, new Request(kernelUrl), delivery, adminSecret)).resolves.toEqual(true);
+    await expect(isDuplicateDelivery(eventHandler, new Request(kernelUrl), { ...delivery, id: "delivery-2" }, adminSecret)).resolves.toEqual(false);
+  });
+
+  it("Should only accept the deliveries signed with the webhook secret", async () => {
+    const eventHandler = createEventHandler();
+    const delivery = await createDelivery(eventHandler);
+
+    await expect(verifyDelivery(eventHandler, delivery)).resolves.toEqual(true);
+    await expect(verifyDelivery(eventHandler, { ...delivery, signature: "sha256=invalid" })).resolves.toEqual(false);
+    await expect(verifyDelivery(eventHandler, { ...delivery, payload: "{}" })).resolves.toEqual(false);
+  });
+
+  it("Should accept the deliveries signed with any of the rotated webhook secrets", async () => {
+    const eventHandler = new GitHubEventHandler({
+      environment: "production",
+      webhookSecret: ["new-secret", "webhook-secret"],
+      appId: "1",
+      privateKey: "private-key",
+      pluginChainState: new EmptyStore<PluginChainState>(),
+    });
+    const delivery = await createDelivery(createEventHandler());
+
+    await expect(eventHandler.verifyWebhookSignature(delivery.payload, delivery.signature)).resolves.toEqual(1);
+    await expect(eventHandler.verifyWebhookSignature(payload, await eventHandler.webhooks.sign(payload))).resolves.toEqual(0);
+    await expect(verifyDelivery(eventHandler, delivery)).resolves.toEqual(true);
+    await expect(verifyDelivery(eventHandler, { ...delivery, signature: "sha256=invalid" })).resolves.toEqual(false);
+  });
+
+  it("Should replay the deliveries signed with the admin secret", async () => {
+    const eventHandler = createEventHandler();
+    const delivery = await createDelivery(eventHandler);
+    await markDeliveryProcessed(eventHandler, delivery);
+    const timestamp = String(Math.floor(Date.now() / 1000));
+    const replay = new Request(kernelUrl, {
+      method: "POST",
+      headers: { [ADMIN_TIMESTAMP_HEADER]: timestamp, [ADMIN_SIGNATURE_HEADER]: await signAdminRequest(adminSecret, timestamp, "POST", "/", payload) },
+    });
+
+    await expect(isDuplicateDelivery(eventHandler, replay, delivery, adminSecret)).resolves.toEqual(false);
+    await expect(isDuplicateDelivery(eventHandler, replay, delivery)).resolves.toEqual(true);
+    await expect(isDuplicateDelivery(eventHandler, replay, delivery, "wrong-secret")).resolves.toEqual(true);
+  });
+
+  it("Should process the queued deliveries in the background", async () => {
+    const eventHandler = createEventHandler();
+    const delivery = await createDelivery(eventHandler);
+    const handler = jest.fn(() => new Promise((resolve) => setTimeout(resolve, 10)));
+    eventHandler.on("issue_comment.created", handler);
+    const queue = new InProcessQueue((delivery) => processDelivery(eventHandler, delivery));
+
+    queue.enqueue(delivery);
+    expect(await eventHandler.deliveries.get(delivery.id)).toBeNull();
+    await queue.drain();
+
+    expect(handler).toHaveBeenCalledTimes(1);
+    expect(await eventHandler.deliveries.get(delivery.id)).toEqual({ eventName: delivery.eventName, processedAt: expect.any(String) });
+  });
+
+  it("Should not remember the deliveries that failed to be processed", async () => {
+    const eventHandler = createEventHandler();
+    const delivery = await createDelivery(eventHandler);
+    eventHandler.on("issue_comment.created", () => Promise.reject(new Error("Test induced failure")));
+    const consoleSpy = jest.spyOn(console, "error").mockImplementation(() => undefined);
+
+    await processDelivery(eventHandler, delivery);
+
+    expect(consoleSpy).toHaveBeenCalledWith(`An error occurred while processing the delivery ${delivery.id}`, expect.anything());
+    expect(await eventHandler.deliveries.get(delivery.id)).toBeNull();
+    consoleSpy.mockRestore();
+  });
+});
@@ -0,0 +1,65 @@
+import { describe, expect, it, jest } from "@jest/globals";
+import { GitHubEventHandler } from "../src/github/github-event-handler";
+import { reconcileFailedDeliveries } from "../src/github/handlers/delivery-reconcile";
+import { DeliveryCursor } from "../src/github/types/webhook-delivery";
+import { CloudflareKv } from "../src/github/utils/kv-store";
+import { KvNamespaceMock } from "./__mocks__/kv-namespace";
+
+const now = Date.parse("2024-10-01T12:00:00Z");
+
+type Delivery = { id: number; guid: string; delivered_at: string; redelivery: boolean; status_code: number };
+
+function delivery(id: number, guid: string, minutesAgo: number, statusCode: number, isRedelivery = false): Delivery {
+  return { id, guid, delivered_at: new Date(now - minutesAgo * 60 * 1000).toISOString(), redelivery: isRedelivery, status_code: statusCode };
+}
+
+function createEventHandler(pages: Delivery[][]) {
+  const redeliverWebhookDelivery = jest.fn(() => Promise.resolve({}));
+  const iterator = jest.fn(async function* () {
+    for (const data of pages) {
+      yield { data };
+    }
+  });
+  const eventHandler = {
+    deliveryCursor: new CloudflareKv<DeliveryCursor>(new KvNamespaceMock().asNamespace()),
+    getUnauthenticatedOctokit: () => ({ paginate: { iterator }, rest: { apps: { listWebhookDeliveries: jest.fn(), redeliverWebhookDelivery } } }),
+  } as unknown as GitHubEventHandler;
+  return { eventHandler, iterator, redeliverWebhookDelivery };
+}
+
+describe("Delivery reconciliation tests", () => {
+  it("Should redeliver the webhooks that failed since the last run", async () => {
+    const { eventHandler, redeliverWebhookDelivery } = createEventHandler([
+      [delivery(6, "fixed", 1, 200, true), delivery(5, "down", 2, 0), delivery(4, "ok", 3, 200)],
+      [delivery(3, "fixed", 4, 500), delivery(2, "retried", 5, 502, true), delivery(1, "old", 30, 500)],
+    ]);
+    const dateSpy = jest.spyOn(Date, "now").mockReturnValue(now - 10 * 60 * 1000);
+    await eventHandler.deliveryCursor.put("app", { deliveredAt: new Date(now - 10 * 60 * 1000).toISOString() });
+
+    dateSpy.mockReturnValue(now);
+    await reconcileFailedDeliveries(eventHandler, now);
+    dateSpy.mockRestore();
+
+    expect(redeliverWebhookDelivery.mock.calls).toEqual([[{ delivery_id: 5 }]]);
+    expect(await eventHandler.deliveryCursor.get("app")).toEqual({ deliveredAt: new Date(now - 60 * 1000).toISOString() });
+  });
+
+  it("Should not look further back than GitHub can redeliver", async () => {
+    const { eventHandler, redeliverWebhookDelivery } = createEventHandler([[delivery(2, "recent", 60, 500), delivery(1, "expired", 4 * 24 * 60, 500)]]);
+
+    await reconcileFailedDeliveries(eventHandler, now);
+
+    expect(redeliverWebhookDelivery.mock.calls).toEqual([[{ delivery_id: 2 }]]);
+  });
+
+  it("Should keep the cursor when there is no new delivery", async () => {
+    const { eventHandler, redeliverWebhookDelivery } = createEventHandler([[delivery(1, "old", 30, 500)]]);
+    const cursor = { deliveredAt: new Date(now - 10 * 60 * 1000).toISOString() };
+    await eventHandler.deliveryCursor.put("app", cursor);
+
+    await reconcileFailedDeliveries(eventHandler, now);
+
+    expect(redeliverWebhookDelivery).not.toHaveBeenCalled();
+    expect(await eventHandler.deliveryCursor.get("app")).toEqual(cursor);
+  });
+});
@@ -0,0 +1,124 @@
+import { beforeEach, describe, expect, it, jest } from "@jest/globals";
+import { GitHubEventHandler } from "../src/github/github-event-handler";
+import { PluginChainState } from "../src/github/types/plugin";
+import { PluginConfiguration } from "../src/github/types/plugin-configuration";
+import { ProcessedDelivery, WebhookDelivery } from "../src/github/types/webhook-delivery";
+import { ADMIN_SIGNATURE_HEADER, ADMIN_TIMESTAMP_HEADER, signAdminRequest } from "../src/github/utils/admin-auth";
+import { CloudflareKv, EmptyStore } from "../src/github/utils/kv-store";
+import { KvNamespaceMock } from "./__mocks__/kv-namespace";
+
+const dispatchWorker = jest.fn<(url: string, payload?: Record<string, unknown>) => Promise<unknown>>();
+
+jest.mock("../src/github/utils/workflow-dispatch", () => ({
+  ...(jest.requireActual("../src/github/utils/workflow-dispatch") as object),
+  dispatchWorker,
+}));
+
+const rewardsUrl = "https://rewards.internal";
+const labelsUrl = "https://labels.internal";
+const runsOn: PluginConfiguration["plugins"][0]["uses"][0]["runsOn"] = ["issue_comment.created"];
+
+jest.mock("../src/github/utils/config", () => ({
+  getConfig: jest.fn(
+    (): PluginConfiguration => ({
+      plugins: [
+        { name: "rewards", uses: [{ plugin: rewardsUrl, with: {}, runsOn }], skipBotEvents: true },
+        { name: "labels", uses: [{ plugin: labelsUrl, with: {}, runsOn }], skipBotEvents: true },
+      ],
+    })
+  ),
+}));
+
+jest.mock("../src/github/utils/plugins", () => ({
+  ...(jest.requireActual("../src/github/utils/plugins") as object),
+  getManifest: jest.fn(() => Promise.resolve(null)),
+}));
+
+const adminSecret = "admin-secret";
+const deliveryId = "delivery-1";
+const replayPath = `/deliveries/${deliveryId}/replay`;
+
+function createEventHandler() {
+  const eventHandler = new GitHubEventHandler({
+    environment: "production",
+    webhookSecret: "webhook-secret",
+    appId: "1",
+    privateKey: "private-key",
+    pluginChainState: new EmptyStore<PluginChainState>(),
+    deliveries: new CloudflareKv<ProcessedDelivery>(new KvNamespaceMock().asNamespace()),
+    deliveryArchive: new CloudflareKv<WebhookDelivery>(new KvNamespaceMock().asNamespace()),
+  });
+  jest.spyOn(eventHandler, "getToken").mockResolvedValue("token");
+  jest.spyOn(eventHandler, "signPayload").mockResolvedValue("signature");
+  return eventHandler;
+}
+
+async function archiveDelivery(eventHandler: GitHubEventHandler) {
+  const { archiveDelivery } = await import("../src/github/utils/deliveries");
+  const payload = JSON.stringify({
+    action: "created",
+    installation: { id: 1 },
+    sender: { type: "User" },
+    comment: { body: "Hello" },
+    repository: { name: "bot", full_name: "ubiquity-os/bot", owner: { login: "ubiquity-os" } },
+  });
+  await archiveDelivery(eventHandler, { id: deliveryId, eventName: "issue_comment", payload, signature: await eventHandler.webhooks.sign(payload) });
+}
+
+async function signedRequest(path: string, body = "", secret = adminSecret) {
+  const timestamp = String(Math.floor(Date.now() / 1000));
+  return new Request(new URL(path, "https://kernel.internal"), {
+    method: "POST",
+    body,
+    headers: { [ADMIN_TIMESTAMP_HEADER]: timestamp, [ADMIN_SIGNATURE_HEADER]: await signAdminRequest(secret, timestamp, "POST", path, body) },
+  });
+}
+
+async function replay(eventHandler: GitHubEventHandler, request: Request) {
+  const { handleDeliveryReplayRequest } = await import("../src/github/routes/delivery-replay");
+  const { processDelivery } = await import("../src/github/utils/deliveries");
+  const { InProcessQueue } = await import("../src/github/utils/delivery-queue");
+  const queue = new InProcessQueue((delivery) => processDelivery(eventHandler, delivery));
+  const response = await handleDeliveryReplayRequest(request, eventHandler, queue, adminSecret);
+  await queue.drain();
+  return response;
+}
+
+describe("Delivery replay tests", () => {
+  beforeEach(() => {
+    dispatchWorker.mockReset();
+    dispatchWorker.mockImplementation(async (url, payload) => ({ stateId: payload?.stateId, output: {} }));
+  });
+
+  it("Should run an archived delivery through every plugin chain again", async () => {
+    const eventHandler = createEventHandler();
+    await archiveDelivery(eventHandler);
+
+    const response = await replay(eventHandler, await signedRequest(replayPath));
+
+    expect(response.status).toEqual(202);
+    expect(dispatchWorker.mock.calls.map(([url]) => url).sort()).toEqual([labelsUrl, rewardsUrl]);
+    expect(await eventHandler.deliveries.get(deliveryId)).toEqual({ eventName: "issue_comment", processedAt: expect.any(String) });
+  });
+
+  it("Should only run the requested plugin chain", async () => {
+    const eventHandler = createEventHandler();
+    await archiveDelivery(eventHandler);
+
+    const response = await replay(eventHandler, await signedRequest(replayPath, JSON.stringify({ pluginChain: "labels" })));
+
+    expect(await response.json()).toEqual({ deliveryId, pluginChain: "labels" });
+    expect(dispatchWorker.mock.calls.map(([url]) => url)).toEqual([labelsUrl]);
+  });
+
+  it("Should refuse unsigned requests and unknown deliveries", async () => {
+    const eventHandler = createEventHandler();
+    await archiveDelivery(eventHandler);
+
+    expect((await replay(eventHandler, new Request(`https://kernel.internal${replayPath}`, { method: "POST" }))).status).toEqual(401);
+    expect((await replay(eventHandler, await signedRequest(replayPath, "", "wrong-secret"))).status).toEqual(401);
+    expect((await replay(eventHandler, await signedRequest(replayPath, JSON.stringify({ pluginChain: 1 })))).status).toEqual(400);
+    expect((await replay(eventHandler, await signedRequest("/deliveries/unknown/replay"))).status).toEqual(404);
+    expect(dispatchWorker).not.toHaveBeenCalled();
+  });
+});
@@ -153,15 +153,22 @@ describe("handleEvent", () => {
     });
 
     const worker = (await import("../src/worker")).default;
-    const res = await worker.fetch(req, {
-      ENVIRONMENT: "production",
-      APP_WEBHOOK_SECRET: secret,
-      APP_ID: "1",
-      APP_PRIVATE_KEY: "1234",
-      PLUGIN_CHAIN_STATE: {} as KVNamespace,
-    });
+    const waitUntil = jest.fn<ExecutionContext["waitUntil"]>();
+    const res = await worker.fetch(
+      req,
+      {
+        ENVIRONMENT: "production",
+        APP_WEBHOOK_SECRET: secret,
+        APP_ID: "1",
+        APP_PRIVATE_KEY: "1234",
+        PLUGIN_CHAIN_STATE: {} as KVNamespace,
+      },
+      { waitUntil } as unknown as ExecutionContext
+    );
 
-    expect(res).toBeTruthy();
+    expect(res.status).toEqual(200);
+    // the plugins are dispatched once the webhook is acknowledged
+    await Promise.all(waitUntil.mock.calls.map(([promise]) => promise));
     // 2 calls means the execution didn't break
     expect(dispatchWorker).toHaveBeenCalledTimes(2);
     dispatchWorker.mockReset();
@@ -0,0 +1,53 @@
+import { describe, expect, it } from "@jest/globals";
+import { checkTemplate, evaluateTemplate } from "../src/github/utils/expressions";
+
+const scope = {
+  event: {
+    issue: { number: 12, title: "Fix the bug", labels: [{ name: "Priority: 1" }, { name: "Time: <1 Hour" }] },
+    sender: { login: "user" },
+  },
+  steps: {
+    parser: { output: { command: "start", args: ["--fast"], nested: { count: 3 } } },
+  },
+};
+
+describe("Expressions tests", () => {
+  it("Should keep the type of values made of a single expression", () => {
+    expect(evaluateTemplate("${{ event.issue.number }}", scope)).toEqual(12);
+    expect(evaluateTemplate(" ${{ steps.parser.output.args }} ", scope)).toEqual(["--fast"]);
+    expect(evaluateTemplate("${{ steps.parser.output.nested }}", scope)).toEqual({ count: 3 });
+    expect(evaluateTemplate("${{ steps.parser.output.missing }}", scope)).toBeUndefined();
+    expect(evaluateTemplate("no expression", scope)).toEqual("no expression");
+  });
+  it("Should interpolate expressions within strings", () => {
+    expect(evaluateTemplate("Issue #${{ event.issue.number }} opened by ${{ event.sender.login }}", scope)).toEqual("Issue #12 opened by user");
+    expect(evaluateTemplate("args: ${{ steps.parser.output.args }}, missing: '${{ steps.parser.output.missing }}'", scope)).toEqual(
+      `args: ["--fast"], missing: ''`
+    );
+  });
+  it("Should read nested paths with dots and brackets", () => {
+    expect(evaluateTemplate("${{ event.issue.labels.1.name }}", scope)).toEqual("Time: <1 Hour");
+    expect(evaluateTemplate("${{ event['issue'].labels[0]['name'] }}", scope)).toEqual("Priority: 1");
+  });
+  it("Should evaluate literals and operators", () => {
+    expect(evaluateTemplate("${{ 'text' }}", scope)).toEqual("text");
+    expect(evaluateTemplate("${{ 1.5 }}", scope)).toEqual(1.5);
+    expect(evaluateTemplate("${{ null }}", scope)).toBeNull();
+    expect(evaluateTemplate("${{ event.issue.number >= 12 && event.issue.number < 13 }}", scope)).toEqual(true);
+    expect(evaluateTemplate("${{ steps.parser.output.command != 'start' || !(event.issue.number > 20) }}", scope)).toEqual(true);
+    expect(evaluateTemplate("${{ steps.parser.output.missing || 'default' }}", scope)).toEqual("default");
+    expect(evaluateTemplate("${{ event.issue.title > 5 }}", scope)).toEqual(false);
+  });
+  it("Should reject invalid expressions", () => {
+    const invalidExpression = "Invalid expression";
+    const ids = new Set(["parser", "later"]);
+    const calledIds = new Set(["parser"]);
+    expect(() => checkTemplate("${{ steps.parser.output.args }} and ${{ parser.output.command }}", ids, calledIds)).not.toThrow();
+    expect(() => checkTemplate("${{ event.issue.number == }}", ids, calledIds)).toThrow(invalidExpression);
+    expect(() => checkTemplate("${{ event.issue[steps] }}", ids, calledIds)).toThrow(invalidExpression);
+    expect(() => checkTemplate("${{ steps.later.output.value }}", ids, calledIds)).toThrow("before it is called");
+    expect(() => checkTemplate("${{ steps.unknown.output.value }}", ids, calledIds)).toThrow("non-existent id unknown");
+    expect(() => checkTemplate("${{ steps }}", ids, calledIds)).toThrow("must refer to a plugin id");
+    expect(() => checkTemplate("${{ steps.parser.inputs }}", ids, calledIds)).toThrow(invalidExpression);
+  });
+});
@@ -0,0 +1,72 @@
+import { describe, expect, it, jest } from "@jest/globals";
+import { GitHubContext } from "../src/github/github-context";
+import { handleInstallationEvent, handleRepositoryEvent } from "../src/github/handlers/installation-event";
+import { CachedRepository, CachedInstallation } from "../src/github/types/installation";
+import { getInstallationId } from "../src/github/utils/installations";
+import { MemoryKv } from "../src/github/utils/kv-store";
+import { getDefaultBranch } from "../src/github/utils/workflow-dispatch";
+
+const owner = "Ubiquity-OS";
+const repository = "bot";
+
+function createContext(payload: Record<string, unknown> = {}) {
+  const getRepoInstallation = jest.fn(({ owner }: { owner: string }) =>
+    owner === "unknown" ? Promise.reject(Object.assign(new Error("Not Found"), { status: 404 })) : Promise.resolve({ data: { id: 42 } })
+  );
+  const getRepository = jest.fn(() => Promise.resolve({ data: { default_branch: "development" } }));
+  const eventHandler = {
+    installations: new MemoryKv<CachedInstallation>(),
+    defaultBranches: new MemoryKv<CachedRepository>(),
+    getUnauthenticatedOctokit: () => ({ rest: { apps: { getRepoInstallation } } }),
+    getAuthenticatedOctokit: jest.fn(() => ({ rest: { repos: { get: getRepository } } })),
+  };
+  const context = { eventHandler, payload } as unknown as GitHubContext;
+  return { context, getRepoInstallation, getRepository };
+}
+
+describe("Installation lookup tests", () => {
+  it("Should look installations up once per account", async () => {
+    const { context, getRepoInstallation } = createContext();
+    await expect(getInstallationId(context, owner, repository)).resolves.toEqual(42);
+    await expect(getInstallationId(context, "ubiquity-os", "kernel")).resolves.toEqual(42);
+    expect(getRepoInstallation).toHaveBeenCalledTimes(1);
+    expect(getRepoInstallation).toHaveBeenCalledWith({ owner, repo: repository });
+    await expect(getInstallationId(context, "unknown", repository)).rejects.toThrow("No installation found for owner: unknown");
+  });
+
+  it("Should cache default branches until the repository or its installation changes", async () => {
+    const { context, getRepoInstallation, getRepository } = createContext();
+    await expect(getDefaultBranch(context, owner, repository)).resolves.toEqual("development");
+    await expect(getDefaultBranch(context, owner, repository)).resolves.toEqual("development");
+    expect(getRepository).toHaveBeenCalledTimes(1);
+
+    await handleRepositoryEvent({
+      ...context,
+      payload: { action: "edited", repository: { name: repository, owner: { login: owner } } },
+    } as unknown as GitHubContext<"repository.edited">);
+    await getDefaultBranch(context, owner, repository);
+    expect(getRepository).toHaveBeenCalledTimes(2);
+    expect(getRepoInstallation).toHaveBeenCalledTimes(1);
+
+    await handleInstallationEvent({
+      ...context,
+      payload: { action: "suspend", installation: { id: 42, account: { login: "ubiquity-os" } } },
+    } as unknown as GitHubContext<"installation">);
+    expect(await context.eventHandler.installations.list()).toEqual([]);
+    expect(await context.eventHandler.defaultBranches.list()).toEqual([]);
+    await getDefaultBranch(context, owner, repository);
+    expect(getRepository).toHaveBeenCalledTimes(3);
+    expect(getRepoInstallation).toHaveBeenCalledTimes(2);
+  });
+
+  it("Should forget the previous login of renamed accounts", async () => {
+    const { context } = createContext();
+    await getInstallationId(context, "old-login", repository);
+    await getInstallationId(context, "new-login", repository);
+    await handleInstallationEvent({
+      ...context,
+      payload: { action: "renamed", account: { login: "new-login" }, changes: { login: { from: "old-login" } }, installation: { id: 42 } },
+    } as unknown as GitHubContext<"installation_target">);
+    expect(await context.eventHandler.installations.list()).toEqual([]);
+  });
+});
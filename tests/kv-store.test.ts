@@ -0,0 +1,195 @@
+import { afterEach, beforeEach, describe, expect, it, jest } from "@jest/globals";
+import { mkdtemp, readdir, rm } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { EncryptedKv, EncryptedValue } from "../src/github/utils/encrypted-kv";
+import { CloudflareKv, MemoryKv } from "../src/github/utils/kv-store";
+import { FileSystemKv } from "../src/server/filesystem-kv";
+import { RedisClient, RedisKv } from "../src/server/redis-kv";
+import { KvNamespaceMock } from "./__mocks__/kv-namespace";
+
+type State = { currentPlugin: number; outputs: unknown[] };
+
+const stateId = "state-id";
+const pluginChainPrefix = "plugin-chain:";
+const firstIssueId = "owner/repo#1";
+const secondIssueId = "owner/repo#2";
+
+afterEach(() => {
+  jest.useRealTimers();
+});
+
+describe("CloudflareKv tests", () => {
+  it("Should store and retrieve a state", async () => {
+    const store = new CloudflareKv<State>(new KvNamespaceMock().asNamespace());
+    await store.put(stateId, { currentPlugin: 1, outputs: [{ result: "ok" }] });
+    await expect(store.get(stateId)).resolves.toEqual({ currentPlugin: 1, outputs: [{ result: "ok" }] });
+    await expect(store.get("unknown")).resolves.toBeNull();
+  });
+  it("Should expire states after the configured TTL", async () => {
+    jest.useFakeTimers();
+    const kv = new KvNamespaceMock();
+    const putSpy = jest.spyOn(kv, "put");
+    const store = new CloudflareKv<State>(kv.asNamespace(), { expirationTtl: 120 });
+    await store.put(stateId, { currentPlugin: 0, outputs: [] });
+    expect(putSpy).toHaveBeenCalledWith(stateId, JSON.stringify({ currentPlugin: 0, outputs: [] }), { expirationTtl: 120 });
+
+    jest.advanceTimersByTime(119 * 1000);
+    await expect(store.get(stateId)).resolves.toEqual({ currentPlugin: 0, outputs: [] });
+    jest.advanceTimersByTime(1000);
+    await expect(store.get(stateId)).resolves.toBeNull();
+  });
+  it("Should list keys in order, page by page, and stop at the limit", async () => {
+    const kv = new KvNamespaceMock();
+    const listSpy = jest.spyOn(kv, "list");
+    const store = new CloudflareKv<State>(kv.asNamespace(), { prefix: pluginChainPrefix });
+    const ids = [...new Array(1500).keys()].map((i) => `state-${String(i).padStart(4, "0")}`);
+    for (const id of [...ids].reverse()) {
+      await store.put(id, { currentPlugin: 0, outputs: [] });
+    }
+
+    await expect(store.list()).resolves.toEqual(ids);
+    expect(listSpy).toHaveBeenCalledTimes(2);
+    listSpy.mockClear();
+    await expect(store.list("state-", 2)).resolves.toEqual(ids.slice(0, 2));
+    expect(listSpy).toHaveBeenCalledTimes(1);
+    expect(listSpy).toHaveBeenCalledWith({ prefix: "plugin-chain:state-", cursor: undefined, limit: 2 });
+  });
+  it("Should reject TTLs that Cloudflare KV does not support", () => {
+    const kv = new KvNamespaceMock().asNamespace();
+    expect(() => new CloudflareKv<State>(kv, { expirationTtl: 30 })).toThrow();
+    expect(() => new CloudflareKv<State>(kv, { expirationTtl: 90.5 })).toThrow();
+  });
+});
+
+describe("MemoryKv tests", () => {
+  it("Should store, list and expire values", async () => {
+    jest.useFakeTimers();
+    const store = new MemoryKv<State>({ expirationTtl: 60 });
+    const state = { currentPlugin: 1, outputs: [] };
+    await store.put(stateId, state);
+    await store.put("other-id", state);
+    state.currentPlugin = 2;
+
+    await expect(store.get(stateId)).resolves.toEqual({ currentPlugin: 1, outputs: [] });
+    await expect(store.list("state-")).resolves.toEqual([stateId]);
+    await expect(store.list("", 1)).resolves.toEqual(["other-id"]);
+    await store.delete("other-id");
+    await expect(store.list()).resolves.toEqual([stateId]);
+    jest.advanceTimersByTime(60 * 1000);
+    await expect(store.get(stateId)).resolves.toBeNull();
+    await expect(store.list()).resolves.toEqual([]);
+  });
+});
+
+describe("FileSystemKv tests", () => {
+  let directory: string;
+
+  beforeEach(async () => {
+    directory = await mkdtemp(join(tmpdir(), "kernel-store-"));
+  });
+  afterEach(async () => {
+    await rm(directory, { recursive: true, force: true });
+  });
+
+  it("Should store values in files and list them by prefix", async () => {
+    const store = new FileSystemKv<State>(directory, { prefix: pluginChainPrefix });
+    const otherStore = new FileSystemKv<State>(directory, { prefix: "audit-log:" });
+    await store.put(firstIssueId, { currentPlugin: 1, outputs: [{ result: "ok" }] });
+    await store.put(secondIssueId, { currentPlugin: 2, outputs: [] });
+    await otherStore.put(firstIssueId, { currentPlugin: 3, outputs: [] });
+
+    await expect(new FileSystemKv<State>(directory, { prefix: pluginChainPrefix }).get(firstIssueId)).resolves.toEqual({
+      currentPlugin: 1,
+      outputs: [{ result: "ok" }],
+    });
+    await expect(store.get("unknown")).resolves.toBeNull();
+    await expect(store.list("owner/repo#")).resolves.toEqual(expect.arrayContaining([firstIssueId, secondIssueId]));
+    await store.delete(secondIssueId);
+    await expect(store.list()).resolves.toEqual([firstIssueId]);
+    await expect(otherStore.list()).resolves.toEqual([firstIssueId]);
+    await expect(new FileSystemKv<State>(join(directory, "missing")).list()).resolves.toEqual([]);
+  });
+
+  it("Should expire values after the configured TTL", async () => {
+    const store = new FileSystemKv<State>(directory, { expirationTtl: 60 });
+    const now = Date.now();
+    const dateSpy = jest.spyOn(Date, "now").mockReturnValue(now);
+    await store.put(stateId, { currentPlugin: 0, outputs: [] });
+    await expect(store.get(stateId)).resolves.toEqual({ currentPlugin: 0, outputs: [] });
+
+    dateSpy.mockReturnValue(now + 60 * 1000);
+    await expect(store.list()).resolves.toEqual([]);
+    await expect(readdir(directory)).resolves.toEqual([]);
+    dateSpy.mockRestore();
+  });
+});
+
+describe("RedisKv tests", () => {
+  function createClient() {
+    const values = new Map<string, string>();
+    return {
+      values,
+      get: jest.fn(async (key: string) => values.get(key) ?? null),
+      set: jest.fn(async (key: string, value: string) => {
+        values.set(key, value);
+        return "OK";
+      }),
+      del: jest.fn(async (key: string) => Number(values.delete(key))),
+      scanIterator: jest.fn(async function* (options: { MATCH: string }) {
+        const prefix = options.MATCH.slice(0, -1).replace(/\\(.)/g, "$1");
+        yield* [...values.keys()].filter((key) => key.startsWith(prefix));
+      }),
+    };
+  }
+
+  it("Should store values under prefixed keys with their TTL", async () => {
+    const client = createClient();
+    const store = new RedisKv<State>(client as unknown as RedisClient, { prefix: pluginChainPrefix, expirationTtl: 120 });
+    await store.put(stateId, { currentPlugin: 1, outputs: [] });
+    await store.put("state*", { currentPlugin: 2, outputs: [] });
+
+    expect(client.set).toHaveBeenCalledWith(`plugin-chain:${stateId}`, JSON.stringify({ currentPlugin: 1, outputs: [] }), { EX: 120 });
+    await expect(store.get(stateId)).resolves.toEqual({ currentPlugin: 1, outputs: [] });
+    await expect(store.get("unknown")).resolves.toBeNull();
+    await expect(store.list("state*")).resolves.toEqual(["state*"]);
+    expect(client.scanIterator).toHaveBeenCalledWith({ MATCH: "plugin-chain:state\\**", COUNT: 100 });
+    await store.delete(stateId);
+    await expect(store.list()).resolves.toEqual(["state*"]);
+  });
+});
+
+describe("EncryptedKv tests", () => {
+  const secret = "a-state-encryption-secret-of-32-bytes";
+  const state = { currentPlugin: 0, outputs: [{ authToken: "ghs_secret-token" }] };
+
+  it("Should only write encrypted values to the underlying store", async () => {
+    jest.useFakeTimers();
+    const kv = new KvNamespaceMock();
+    const putSpy = jest.spyOn(kv, "put");
+    const store = new EncryptedKv<State>(new CloudflareKv<EncryptedValue>(kv.asNamespace(), { prefix: pluginChainPrefix }), secret);
+    await store.put(stateId, state);
+
+    const [key, value] = putSpy.mock.calls[0];
+    expect(key).toEqual(`${pluginChainPrefix}${stateId}`);
+    expect(value).not.toContain("ghs_secret-token");
+    expect(Object.keys(JSON.parse(value as string)).sort()).toEqual(["ciphertext", "iv"]);
+    await expect(store.get(stateId)).resolves.toEqual(state);
+    await expect(store.list()).resolves.toEqual([stateId]);
+    jest.advanceTimersByTime(1000);
+    await store.delete(stateId);
+    await expect(store.get(stateId)).resolves.toBeNull();
+  });
+
+  it("Should not read values encrypted with another secret, under another id or written in plaintext", async () => {
+    const encrypted = new MemoryKv<EncryptedValue>();
+    const store = new EncryptedKv<State>(encrypted, secret);
+    await store.put(stateId, state);
+
+    await expect(new EncryptedKv<State>(encrypted, "another-state-encryption-secret-of-32-bytes").get(stateId)).resolves.toBeNull();
+    await encrypted.put("copied", (await encrypted.get(stateId)) as EncryptedValue);
+    await expect(store.get("copied")).resolves.toBeNull();
+    await (encrypted as MemoryKv<unknown>).put("plaintext", state);
+    await expect(store.get("plaintext")).resolves.toBeNull();
+  });
+});
@@ -61,13 +61,17 @@ describe("Worker tests", () => {
   it("Should fail on missing env variables", async () => {
     const req = new Request("http://localhost:8080");
     const consoleSpy = jest.spyOn(console, "error").mockImplementation(() => jest.fn());
-    const res = await worker.fetch(req, {
-      ENVIRONMENT: "production",
-      APP_WEBHOOK_SECRET: "",
-      APP_ID: "",
-      APP_PRIVATE_KEY: "",
-      PLUGIN_CHAIN_STATE: {} as KVNamespace,
-    });
+    const res = await worker.fetch(
+      req,
+      {
+        ENVIRONMENT: "production",
+        APP_WEBHOOK_SECRET: "",
+        APP_ID: "",
+        APP_PRIVATE_KEY: "",
+        PLUGIN_CHAIN_STATE: {} as KVNamespace,
+      },
+      {} as ExecutionContext
+    );
     expect(res.status).toEqual(500);
     consoleSpy.mockReset();
   });
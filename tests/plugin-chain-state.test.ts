@@ -0,0 +1,69 @@
+import { describe, expect, it } from "@jest/globals";
+import { PLUGIN_CHAIN_STATE_VERSION, PluginChainState } from "../src/github/types/plugin";
+import { MemoryKv } from "../src/github/utils/kv-store";
+import { PluginChainStateStore } from "../src/github/utils/plugin-chain-state";
+
+const stateId = "state-id";
+const workerUrl = "https://plugin-a.internal";
+const eventName = "issue_comment.created";
+
+function createState(): PluginChainState {
+  return {
+    eventId: "event-id",
+    eventName,
+    eventPayload: { installation: { id: 1 } } as PluginChainState["eventPayload"],
+    status: "in_progress",
+    currentPlugin: 1,
+    pluginChain: [
+      { plugin: workerUrl, with: {}, runsOn: [eventName] },
+      { plugin: { owner: "ubiquity-os", repo: "plugin", workflowId: "compute.yml" }, with: { key: "value" }, runsOn: [] },
+      { plugin: workerUrl, with: {}, runsOn: [] },
+    ],
+    skippedPlugins: [],
+    deadlines: [undefined, Date.now()] as number[],
+    attempts: [[{ startedAt: Date.now(), duration: 10 }]],
+    inputs: [{ stateId, eventName, eventPayload: {}, settings: {}, authToken: "token", ref: workerUrl }],
+    outputs: [{ state_id: stateId, output: { result: "ok" } }],
+  };
+}
+
+describe("Plugin chain state tests", () => {
+  it("Should read back the states it wrote along with their version", async () => {
+    const values = new MemoryKv<unknown>();
+    const store = new PluginChainStateStore(values);
+    const state = createState();
+    await store.put(stateId, state);
+
+    expect(await values.get(stateId)).toMatchObject({ version: PLUGIN_CHAIN_STATE_VERSION });
+    expect(await store.get(stateId)).toEqual(JSON.parse(JSON.stringify({ ...state, version: PLUGIN_CHAIN_STATE_VERSION })));
+    await expect(store.get("unknown")).resolves.toBeNull();
+  });
+
+  it("Should migrate the states written before they were versioned", async () => {
+    const values = new MemoryKv<unknown>();
+    const legacyState = createState();
+    // Fields left undefined are dropped once serialized
+    await values.put(stateId, {
+      ...legacyState,
+      status: undefined,
+      skippedPlugins: undefined,
+      deadlines: undefined,
+      attempts: undefined,
+      inputs: [{ ...legacyState.inputs[0], eventHandler: { environment: "production" } }],
+    });
+
+    const state = await new PluginChainStateStore(values).get(stateId);
+    expect(state).toMatchObject({ version: PLUGIN_CHAIN_STATE_VERSION, status: "in_progress", skippedPlugins: [], deadlines: [], attempts: [] });
+    expect(state?.inputs[0]).toEqual(legacyState.inputs[0]);
+  });
+
+  it("Should not read invalid states or states written by a newer kernel", async () => {
+    const values = new MemoryKv<unknown>();
+    const store = new PluginChainStateStore(values);
+    await values.put("newer", { ...createState(), version: PLUGIN_CHAIN_STATE_VERSION + 1 });
+    await values.put("invalid", { ...createState(), version: PLUGIN_CHAIN_STATE_VERSION, currentPlugin: "1" });
+
+    await expect(store.get("newer")).resolves.toBeNull();
+    await expect(store.get("invalid")).resolves.toBeNull();
+  });
+});
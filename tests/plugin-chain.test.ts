@@ -0,0 +1,657 @@
+import { afterEach, beforeEach, describe, expect, it, jest } from "@jest/globals";
+import { GitHubContext } from "../src/github/github-context";
+import { PluginChainState } from "../src/github/types/plugin";
+import { CloudflareKv } from "../src/github/utils/kv-store";
+import { signPluginOutput } from "../src/types/output-signature";
+import { KvNamespaceMock } from "./__mocks__/kv-namespace";
+import { createContext as createTestContext, createEventHandler, createPluginChainState } from "./__mocks__/plugin-chain";
+
+const dispatchWorker = jest.fn<(url: string, payload?: Record<string, unknown>, timeout?: number) => Promise<unknown>>();
+const dispatchWorkflow = jest.fn<(context: unknown, options: { repository: string; inputs: Record<string, string> }) => Promise<void>>();
+
+jest.mock("../src/github/utils/workflow-dispatch", () => ({
+  ...(jest.requireActual("../src/github/utils/workflow-dispatch") as object),
+  dispatchWorker,
+  dispatchWorkflow,
+  getDefaultBranch: jest.fn(() => Promise.resolve("main")),
+}));
+const getManifest = jest.fn<(context: unknown, plugin: unknown) => Promise<Record<string, unknown>>>();
+
+jest.mock("../src/github/utils/plugins", () => ({
+  getManifest,
+}));
+
+const stateId = "state-id";
+const firstWorkerUrl = "https://plugin-a.internal";
+const secondWorkerUrl = "https://plugin-b.internal";
+const thirdWorkerUrl = "https://plugin-c.internal";
+const workflowId = "compute.yml";
+const owner = "ubiquity-os";
+
+const createComment = jest.fn(() => Promise.resolve({}));
+
+function createContext(overrides: Record<string, unknown> = {}) {
+  return createTestContext(createEventHandler({ getAuthenticatedOctokit: jest.fn(() => ({ rest: { issues: { createComment } } })), ...overrides }));
+}
+
+/**
+ * Builds the \`repository_dispatch\` an Action plugin sends back, signed with the output secret of its last dispatch.
+ */
+async function actionOutput(context: GitHubContext, repo: string, output: Record<string, unknown>, outputSecret = getOutputSecret(repo)) {
+  const payload = { state_id: stateId, output: JSON.stringify(output) };
+  return {
+    ...context,
+    payload: {
+      action: "return-data-to-ubiquity-os-kernel",
+      client_payload: { ...payload, signature: await signPluginOutput(outputSecret, payload) },
+      repository: { owner: { login: owner }, name: repo },
+    },
+  } as unknown as GitHubContext<"repository_dispatch">;
+}
+
+function postOutput(body: unknown) {
+  return new Request("https://kernel.internal/plugin-outputs", {
+    method: "POST",
+    body: typeof body === "string" ? body : JSON.stringify(body),
+    headers: { "content-type": "application/json" },
+  });
+}
+
+function getOutputSecret(repo: string) {
+  const call = [...dispatchWorkflow.mock.calls].reverse().find(([, options]) => options.repository === repo);
+  return call?.[1].inputs.outputSecret ?? "";
+}
+
+/**
+ * Moves the clock past the run of an Action plugin workflow, since Cloudflare KV takes one write per second to a key.
+ */
+function waitForWorkflowRun(time = Date.now() + 60 * 1000) {
+  jest.spyOn(Date, "now").mockReturnValue(time);
+}
+
+function workerResponse(output: Record<string, unknown>) {
+  return async (url: string, payload?: Record<string, unknown>) => ({ stateId: payload?.stateId, output });
+}
+
+describe("Plugin chain tests", () => {
+  beforeEach(() => {
+    getManifest.mockReset();
+    getManifest.mockResolvedValue({ "ubiquity:timeout": 600, "ubiquity:signed-outputs": true });
+    dispatchWorker.mockReset();
+    dispatchWorkflow.mockReset();
+    createComment.mockClear();
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it("Should run a chain made only of Worker plugins", async () => {
+    const { dispatchPluginChainStep } = await import("../src/github/utils/plugin-chain");
+    dispatchWorker.mockImplementationOnce(workerResponse({ result: "first" })).mockImplementationOnce(workerResponse({ result: "second" }));
+    const context = createContext();
+    const state = createPluginChainState([
+      { id: "plugin-a", plugin: firstWorkerUrl, with: {}, runsOn: [] },
+      { id: "plugin-b", plugin: secondWorkerUrl, with: { previous: "${{ plugin-a.output.result }}" }, runsOn: [] },
+    ]);
+
+    await dispatchPluginChainStep(context, stateId, state);
+
+    expect(dispatchWorker).toHaveBeenCalledTimes(2);
+    expect(dispatchWorker.mock.calls[1][0]).toEqual(secondWorkerUrl);
+    expect(dispatchWorker.mock.calls[1][1]).toMatchObject({ stateId, settings: { previous: "first" } });
+    const savedState = await context.eventHandler.pluginChainState.get(stateId);
+    expect(savedState?.currentPlugin).toEqual(1);
+    expect(savedState?.status).toEqual("completed");
+    expect(savedState?.outputs).toEqual([
+      { state_id: stateId, output: { result: "first" } },
+      { state_id: stateId, output: { result: "second" } },
+    ]);
+    expect(savedState?.inputs[0]).toMatchObject({ stateId, authToken: "token", ref: firstWorkerUrl });
+    expect(savedState?.inputs[0]).not.toHaveProperty("eventHandler");
+  });
+
+  it("Should carry on chains mixing Worker and Action plugins", async () => {
+    const { dispatchPluginChainStep, handlePluginOutput } = await import("../src/github/utils/plugin-chain");
+    dispatchWorker.mockImplementationOnce(workerResponse({ result: "worker" })).mockImplementationOnce(workerResponse({ result: "last" }));
+    const context = createContext();
+    const state = createPluginChainState([
+      { id: "worker", plugin: firstWorkerUrl, with: {}, runsOn: [] },
+      {
+        id: "action",
+        plugin: { owner, repo: "plugin-b", workflowId },
+        with: { value: "${{ worker.output.result }}" },
+        runsOn: [],
+      },
+      { plugin: thirdWorkerUrl, with: { value: "${{ action.output.result }}" }, runsOn: [] },
+    ]);
+
+    await dispatchPluginChainStep(context, stateId, state);
+
+    expect(dispatchWorker).toHaveBeenCalledTimes(1);
+    expect(dispatchWorkflow).toHaveBeenCalledTimes(1);
+    expect(JSON.parse(dispatchWorkflow.mock.calls[0][1].inputs.settings)).toEqual({ value: "worker" });
+
+    // The Action plugin returns its output through a repository dispatch
+    const savedState = await context.eventHandler.pluginChainState.get(stateId);
+    expect(savedState?.currentPlugin).toEqual(1);
+    waitForWorkflowRun();
+    await handlePluginOutput(context, savedState as PluginChainState, { state_id: stateId, output: { result: "action" } });
+
+    expect(dispatchWorker).toHaveBeenCalledTimes(2);
+    expect(dispatchWorker.mock.calls[1][1]).toMatchObject({ settings: { value: "action" } });
+    expect((await context.eventHandler.pluginChainState.get(stateId))?.outputs[2]).toEqual({ state_id: stateId, output: { result: "last" } });
+  });
+
+  it("Should fail the chain when a Worker plugin answers for another state or with an invalid output", async () => {
+    const { dispatchPluginChainStep } = await import("../src/github/utils/plugin-chain");
+    dispatchWorker
+      .mockImplementationOnce(() => Promise.resolve({ stateId: "other-state", output: {} }))
+      .mockImplementationOnce(() => Promise.resolve("<html>"));
+    const context = createContext();
+    const pluginChain = [
+      { plugin: firstWorkerUrl, with: {}, runsOn: [] },
+      { plugin: secondWorkerUrl, with: {}, runsOn: [] },
+    ];
+
+    await expect(dispatchPluginChainStep(context, stateId, createPluginChainState(pluginChain))).rejects.toThrow();
+    expect(dispatchWorker).toHaveBeenCalledTimes(1);
+    const savedState = await context.eventHandler.pluginChainState.get(stateId);
+    expect(savedState?.status).toEqual("failed");
+    expect(savedState?.error).toEqual({ plugin: 0, message: `Worker plugin output belongs to state other-state instead of ${stateId}` });
+
+    await expect(dispatchPluginChainStep(context, "invalid-output", createPluginChainState(pluginChain))).rejects.toThrow();
+    expect((await context.eventHandler.pluginChainState.get("invalid-output"))?.error).toEqual({ plugin: 0, message: "Invalid Worker plugin output" });
+  });
+
+  it("Should skip plugins whose condition is not met", async () => {
+    const { dispatchPluginChainStep } = await import("../src/github/utils/plugin-chain");
+    dispatchWorker.mockImplementation(workerResponse({ result: "ok" }));
+    const context = createContext();
+    const state = createPluginChainState([
+      { id: "first", plugin: firstWorkerUrl, if: "${{ event.comment.body == '/start' }}", with: {}, runsOn: [] },
+      { id: "second", plugin: secondWorkerUrl, if: "${{ first.output.result == 'ok' }}", with: {}, runsOn: [] },
+      { plugin: thirdWorkerUrl, if: "${{ !second.output.result || event.installation.id != 1 }}", with: {}, runsOn: [] },
+    ]);
+    state.eventPayload = { installation: { id: 1 }, comment: { body: "/other" } } as PluginChainState["eventPayload"];
+
+    await dispatchPluginChainStep(context, stateId, state);
+
+    expect(dispatchWorker).toHaveBeenCalledTimes(1);
+    expect(dispatchWorker.mock.calls[0][0]).toEqual(thirdWorkerUrl);
+    const savedState = await context.eventHandler.pluginChainState.get(stateId);
+    expect(savedState?.skippedPlugins).toEqual([0, 1]);
+    expect(savedState?.outputs[2]).toEqual({ state_id: stateId, output: { result: "ok" } });
+  });
+
+  it("Should resolve expressions within the settings of the plugins", async () => {
+    const { dispatchPluginChainStep } = await import("../src/github/utils/plugin-chain");
+    dispatchWorker.mockImplementation(workerResponse({ labels: ["bug", "feature"], author: { login: "user" } }));
+    const context = createContext();
+    const state = createPluginChainState([
+      { id: "first", plugin: firstWorkerUrl, with: {}, runsOn: [] },
+      {
+        plugin: secondWorkerUrl,
+        with: {
+          labels: "${{ steps.first.output.labels }}",
+          message: "Hello ${{ first.output.author.login }} from installation ${{ event.installation.id }}",
+          list: ["${{ steps.first.output.labels.0 }}", { nested: "${{ event.installation.id == 1 }}" }],
+        },
+        runsOn: [],
+      },
+    ]);
+
+    await dispatchPluginChainStep(context, stateId, state);
+
+    expect(dispatchWorker.mock.calls[1][1]).toMatchObject({
+      settings: {
+        labels: ["bug", "feature"],
+        message: "Hello user from installation 1",
+        list: ["bug", { nested: true }],
+      },
+    });
+  });
+
+  it("Should advance the chain once when every Worker plugin of a group answers at the same time", async () => {
+    const { dispatchPluginChainStep } = await import("../src/github/utils/plugin-chain");
+    // Both plugins of the group answer at once, when the second one gets called
+    let answerGroup: (() => void) | undefined;
+    const groupAnswered = new Promise<void>((resolve) => (answerGroup = resolve));
+    dispatchWorker.mockImplementation(async (url, payload) => {
+      if (url === secondWorkerUrl) answerGroup?.();
+      await groupAnswered;
+      return { stateId: payload?.stateId, output: { url } };
+    });
+    const context = createContext();
+    const state = createPluginChainState([
+      { group: "checks", plugin: firstWorkerUrl, with: {}, runsOn: [] },
+      { group: "checks", plugin: secondWorkerUrl, with: {}, runsOn: [] },
+      { id: "third", plugin: thirdWorkerUrl, with: {}, runsOn: [] },
+      { plugin: firstWorkerUrl, with: { previous: "${{ steps.third.output.url }}" }, runsOn: [] },
+    ]);
+
+    await dispatchPluginChainStep(context, stateId, state);
+
+    expect(dispatchWorker.mock.calls.map(([url]) => url)).toEqual([firstWorkerUrl, secondWorkerUrl, thirdWorkerUrl, firstWorkerUrl]);
+    const savedState = await context.eventHandler.pluginChainState.get(stateId);
+    expect(dispatchWorker.mock.calls[3][1]).toMatchObject({ settings: { previous: thirdWorkerUrl } });
+    expect(savedState?.status).toEqual("completed");
+    expect(savedState?.outputs[3]).toEqual({ state_id: stateId, output: { url: firstWorkerUrl } });
+  });
+
+  it("Should wait for every plugin of a group before dispatching the next step", async () => {
+    const { dispatchPluginChainStep } = await import("../src/github/utils/plugin-chain");
+    const { repositoryDispatch } = await import("../src/github/handlers/repository-dispatch");
+    dispatchWorker.mockImplementationOnce(workerResponse({ errors: 0 })).mockImplementationOnce(workerResponse({ done: true }));
+    const context = createContext();
+    const state = createPluginChainState([
+      { id: "lint", group: "checks", plugin: firstWorkerUrl, with: {}, runsOn: [] },
+      { id: "tests", group: "checks", plugin: { owner, repo: "tests", workflowId }, with: {}, runsOn: [] },
+      { plugin: secondWorkerUrl, with: { checks: "${{ steps.checks.output }}", errors: "${{ steps.lint.output.errors }}" }, runsOn: [] },
+    ]);
+
+    await dispatchPluginChainStep(context, stateId, state);
+    waitForWorkflowRun();
+
+    expect(dispatchWorker).toHaveBeenCalledTimes(1);
+    expect(dispatchWorkflow).toHaveBeenCalledTimes(1);
+    expect((await context.eventHandler.pluginChainState.get(stateId))?.outputs[0]).toEqual({ state_id: stateId, output: { errors: 0 } });
+
+    await repositoryDispatch(await actionOutput(context, "tests", { passed: true }));
+
+    expect(dispatchWorker).toHaveBeenCalledTimes(2);
+    expect(dispatchWorker.mock.calls[1][1]).toMatchObject({ settings: { checks: { lint: { errors: 0 }, tests: { passed: true } }, errors: 0 } });
+    expect((await context.eventHandler.pluginChainState.get(stateId))?.currentPlugin).toEqual(2);
+  });
+
+  it("Should write the state of a chain once per step, as KV takes one write per second to a key", async () => {
+    const { dispatchPluginChainStep } = await import("../src/github/utils/plugin-chain");
+    const { repositoryDispatch } = await import("../src/github/handlers/repository-dispatch");
+    dispatchWorker.mockImplementation(workerResponse({ done: true }));
+    const namespace = new KvNamespaceMock();
+    const put = jest.spyOn(namespace, "put");
+    const context = createContext({ pluginChainState: new CloudflareKv<PluginChainState>(namespace.asNamespace(), { prefix: "plugin-chain:" }) });
+    const state = createPluginChainState([
+      { group: "checks", plugin: firstWorkerUrl, with: {}, runsOn: [] },
+      { group: "checks", plugin: { owner, repo: "tests", workflowId }, with: {}, runsOn: [] },
+      { group: "checks", plugin: secondWorkerUrl, with: {}, runsOn: [] },
+      { plugin: thirdWorkerUrl, with: {}, runsOn: [] },
+    ]);
+
+    await dispatchPluginChainStep(context, stateId, state);
+    expect(put).toHaveBeenCalledTimes(1);
+
+    waitForWorkflowRun();
+    await repositoryDispatch(await actionOutput(context, "tests", { passed: true }));
+    expect(put).toHaveBeenCalledTimes(2);
+    expect(dispatchWorker).toHaveBeenCalledTimes(3);
+    expect((await context.eventHandler.pluginChainState.get(stateId))?.status).toEqual("completed");
+  });
+
+  it("Should advance the chain once when the same output is returned twice at the same time", async () => {
+    const { dispatchPluginChainStep } = await import("../src/github/utils/plugin-chain");
+    const { repositoryDispatch } = await import("../src/github/handlers/repository-dispatch");
+    dispatchWorker.mockImplementation(workerResponse({ done: true }));
+    const context = createContext();
+    const state = createPluginChainState([
+      { plugin: { owner, repo: "action", workflowId }, with: {}, runsOn: [] },
+      { plugin: firstWorkerUrl, with: {}, runsOn: [] },
+    ]);
+    await dispatchPluginChainStep(context, stateId, state);
+    waitForWorkflowRun();
+    const output = await actionOutput(context, "action", { passed: true });
+
+    await Promise.all([repositoryDispatch(output), repositoryDispatch(output)]);
+
+    expect(dispatchWorker).toHaveBeenCalledTimes(1);
+    const savedState = await context.eventHandler.pluginChainState.get(stateId);
+    expect(savedState?.status).toEqual("completed");
+    expect(savedState?.currentPlugin).toEqual(1);
+  });
+
+  it("Should reject the outputs of Action plugins that are not signed with their output secret", async () => {
+    const { dispatchPluginChainStep } = await import("../src/github/utils/plugin-chain");
+    const { repositoryDispatch } = await import("../src/github/handlers/repository-dispatch");
+    const context = createContext();
+    const state = createPluginChainState([
+      { plugin: { owner, repo: "action", workflowId }, with: {}, runsOn: [] },
+      { plugin: firstWorkerUrl, with: {}, runsOn: [] },
+    ]);
+    await dispatchPluginChainStep(context, stateId, state);
+    const unsignedOutput = await actionOutput(context, "action", { passed: true });
+    delete (unsignedOutput.payload.client_payload as Record<string, unknown>).signature;
+
+    await repositoryDispatch(unsignedOutput);
+    await repositoryDispatch(await actionOutput(context, "action", { passed: true }, "another-secret"));
+    await repositoryDispatch({
+      ...(await actionOutput(context, "action", { passed: true })),
+      payload: { ...unsignedOutput.payload, client_payload: { state_id: stateId, output: JSON.stringify({ passed: false }), signature: "sha256=00" } },
+    } as unknown as GitHubContext<"repository_dispatch">);
+
+    expect(dispatchWorker).not.toHaveBeenCalled();
+    expect((await context.eventHandler.pluginChainState.get(stateId))?.outputs[0]).toBeFalsy();
+  });
+
+  it("Should accept the unsigned outputs of Action plugins that do not sign them from their repository only", async () => {
+    const { dispatchPluginChainStep } = await import("../src/github/utils/plugin-chain");
+    const { repositoryDispatch } = await import("../src/github/handlers/repository-dispatch");
+    const { handlePluginOutputRequest } = await import("../src/github/routes/plugin-output");
+    getManifest.mockResolvedValue({});
+    dispatchWorker.mockImplementation(workerResponse({ done: true }));
+    const context = createContext();
+    const state = createPluginChainState([
+      { plugin: { owner, repo: "action", workflowId }, with: {}, runsOn: [] },
+      { plugin: firstWorkerUrl, with: {}, runsOn: [] },
+    ]);
+    await dispatchPluginChainStep(context, stateId, state);
+    waitForWorkflowRun();
+    expect(dispatchWorkflow.mock.calls[0][1].inputs).not.toHaveProperty("outputSecret");
+    const unsignedOutput = await actionOutput(context, "action", { passed: true }, "unknown-secret");
+    delete (unsignedOutput.payload.client_payload as Record<string, unknown>).signature;
+
+    expect((await handlePluginOutputRequest(postOutput(unsignedOutput.payload.client_payload), context.eventHandler)).status).toEqual(401);
+    await repositoryDispatch({
+      ...unsignedOutput,
+      payload: { ...unsignedOutput.payload, repository: { owner: { login: owner }, name: "other" } },
+    } as unknown as GitHubContext<"repository_dispatch">);
+    expect(dispatchWorker).not.toHaveBeenCalled();
+
+    await repositoryDispatch(unsignedOutput);
+    expect(dispatchWorker).toHaveBeenCalledTimes(1);
+    expect((await context.eventHandler.pluginChainState.get(stateId))?.status).toEqual("completed");
+  });
+
+  it("Should reject the unsigned outputs of every Action plugin when the kernel requires signed outputs", async () => {
+    const { dispatchPluginChainStep } = await import("../src/github/utils/plugin-chain");
+    const { repositoryDispatch } = await import("../src/github/handlers/repository-dispatch");
+    getManifest.mockResolvedValue({});
+    dispatchWorker.mockImplementation(workerResponse({ done: true }));
+    const context = createContext({ requireSignedOutputs: true });
+    const state = createPluginChainState([
+      { plugin: { owner, repo: "action", workflowId }, with: {}, runsOn: [] },
+      { plugin: firstWorkerUrl, with: {}, runsOn: [] },
+    ]);
+    await dispatchPluginChainStep(context, stateId, state);
+    waitForWorkflowRun();
+    expect(dispatchWorkflow.mock.calls[0][1].inputs).toHaveProperty("outputSecret");
+    const unsignedOutput = await actionOutput(context, "action", { passed: true });
+    delete (unsignedOutput.payload.client_payload as Record<string, unknown>).signature;
+
+    await repositoryDispatch(unsignedOutput);
+    expect(dispatchWorker).not.toHaveBeenCalled();
+
+    await repositoryDispatch(await actionOutput(context, "action", { passed: true }));
+    expect(dispatchWorker).toHaveBeenCalledTimes(1);
+    expect((await context.eventHandler.pluginChainState.get(stateId))?.status).toEqual("completed");
+  });
+
+  it("Should carry on the chain with the outputs posted to the kernel", async () => {
+    const { dispatchPluginChainStep } = await import("../src/github/utils/plugin-chain");
+    const { handlePluginOutputRequest } = await import("../src/github/routes/plugin-output");
+    dispatchWorker.mockImplementation(workerResponse({ done: true }));
+    const context = createContext();
+    const state = createPluginChainState([
+      { plugin: { owner, repo: "action", workflowId }, with: {}, runsOn: [] },
+      { plugin: firstWorkerUrl, with: {}, runsOn: [] },
+    ]);
+    await dispatchPluginChainStep(context, stateId, state);
+    waitForWorkflowRun();
+    const { client_payload: payload } = (await actionOutput(context, "action", { passed: true })).payload;
+
+    const response = await handlePluginOutputRequest(postOutput({ ...payload, signature: "sha256=00" }), context.eventHandler);
+    expect(response.status).toEqual(401);
+    expect(dispatchWorker).not.toHaveBeenCalled();
+
+    const accepted = await handlePluginOutputRequest(postOutput(payload), context.eventHandler);
+    expect(accepted.status).toEqual(200);
+    expect(await accepted.json()).toEqual({ stateId });
+    expect(dispatchWorker).toHaveBeenCalledTimes(1);
+    expect((await context.eventHandler.pluginChainState.get(stateId))?.status).toEqual("completed");
+
+    expect((await handlePluginOutputRequest(postOutput(payload), context.eventHandler)).status).toEqual(409);
+    expect((await handlePluginOutputRequest(postOutput({ ...payload, state_id: "unknown" }), context.eventHandler)).status).toEqual(404);
+    expect((await handlePluginOutputRequest(postOutput("{"), context.eventHandler)).status).toEqual(400);
+    expect((await handlePluginOutputRequest(postOutput({ state_id: stateId }), context.eventHandler)).status).toEqual(400);
+  });
+
+  it("Should scope the tokens of the next steps to the repository of the event rather than the one of the plugin", async () => {
+    const { dispatchPluginChainStep } = await import("../src/github/utils/plugin-chain");
+    const { repositoryDispatch } = await import("../src/github/handlers/repository-dispatch");
+    const permissions = { issues: "write" };
+    getManifest.mockImplementation(async (context, plugin) =>
+      plugin === firstWorkerUrl ? { name: "scoped", "ubiquity:permissions": permissions } : { "ubiquity:signed-outputs": true }
+    );
+    dispatchWorker.mockImplementation(workerResponse({ done: true }));
+    const getInstallation = jest.fn(() => Promise.resolve({ data: { permissions: { issues: "write", metadata: "read" } } }));
+    const eventHandler = createEventHandler({ getUnauthenticatedOctokit: () => ({ rest: { apps: { getInstallation } } }) });
+    const context = createTestContext(eventHandler);
+    const state = createPluginChainState([
+      { plugin: { owner, repo: "action", workflowId }, with: {}, runsOn: [] },
+      { plugin: firstWorkerUrl, with: {}, runsOn: [] },
+    ]);
+    state.eventPayload = { installation: { id: 1 }, repository: { owner: { login: owner }, name: "repo" } } as PluginChainState["eventPayload"];
+    await dispatchPluginChainStep(context, stateId, state);
+    waitForWorkflowRun();
+
+    await repositoryDispatch(await actionOutput(context, "action", { passed: true }));
+
+    expect(dispatchWorker).toHaveBeenCalledTimes(1);
+    expect(eventHandler.getToken).toHaveBeenLastCalledWith(1, { permissions, repositoryNames: ["repo"] });
+  });
+
+  it("Should time out chains whose Action plugins never report back", async () => {
+    const { dispatchPluginChainStep, handlePluginOutput } = await import("../src/github/utils/plugin-chain");
+    const { timeoutPluginChains } = await import("../src/github/handlers/plugin-chain-timeout");
+    const context = createContext();
+    const state = createPluginChainState([
+      { id: "rewards", plugin: { owner, repo: "rewards", workflowId }, with: {}, runsOn: [] },
+      { plugin: { owner, repo: "other", workflowId }, timeout: 60, with: {}, runsOn: [] },
+    ]);
+    state.eventPayload = {
+      installation: { id: 1 },
+      issue: { number: 3 },
+      repository: { owner: { login: owner }, name: "repo" },
+    } as PluginChainState["eventPayload"];
+    const now = Date.now();
+
+    await dispatchPluginChainStep(context, stateId, state);
+    const deadline = (await context.eventHandler.pluginChainState.get(stateId))?.deadlines[0] ?? 0;
+    expect(deadline).toBeGreaterThanOrEqual(now + 600 * 1000);
+    await expect(context.eventHandler.pluginChainDeadlines.get(stateId)).resolves.toEqual({ deadline });
+    const withLock = jest.spyOn(context.eventHandler.pluginChainLock, "withLock");
+
+    await timeoutPluginChains(context.eventHandler, deadline);
+    expect(createComment).not.toHaveBeenCalled();
+    expect(withLock).not.toHaveBeenCalled();
+
+    waitForWorkflowRun(deadline + 1);
+    await timeoutPluginChains(context.eventHandler, deadline + 1);
+    const savedState = await context.eventHandler.pluginChainState.get(stateId);
+    expect(savedState?.status).toEqual("timed_out");
+    await expect(context.eventHandler.pluginChainDeadlines.list()).resolves.toEqual([]);
+    expect(createComment).toHaveBeenCalledWith(expect.objectContaining({ owner, repo: "repo", issue_number: 3 }));
+
+    await handlePluginOutput(context, savedState as PluginChainState, { state_id: stateId, output: {} });
+    expect(dispatchWorkflow).toHaveBeenCalledTimes(1);
+  });
+
+  it("Should only index the deadlines of the chains waiting for Action plugins", async () => {
+    const { dispatchPluginChainStep } = await import("../src/github/utils/plugin-chain");
+    const { repositoryDispatch } = await import("../src/github/handlers/repository-dispatch");
+    const { timeoutPluginChains } = await import("../src/github/handlers/plugin-chain-timeout");
+    dispatchWorker.mockImplementation(workerResponse({ done: true }));
+    const context = createContext();
+    await dispatchPluginChainStep(context, "worker-chain", createPluginChainState([{ plugin: firstWorkerUrl, with: {}, runsOn: [] }]));
+    await dispatchPluginChainStep(
+      context,
+      stateId,
+      createPluginChainState([
+        { plugin: { owner, repo: "action", workflowId }, with: {}, runsOn: [] },
+        { plugin: firstWorkerUrl, with: {}, runsOn: [] },
+      ])
+    );
+    await expect(context.eventHandler.pluginChainDeadlines.list()).resolves.toEqual([stateId]);
+
+    waitForWorkflowRun();
+    await repositoryDispatch(await actionOutput(context, "action", { passed: true }));
+    await expect(context.eventHandler.pluginChainDeadlines.list()).resolves.toEqual([]);
+    const list = jest.spyOn(context.eventHandler.pluginChainState, "list");
+    await timeoutPluginChains(context.eventHandler, Date.now() + 24 * 60 * 60 * 1000);
+    expect(list).not.toHaveBeenCalled();
+    expect((await context.eventHandler.pluginChainState.get(stateId))?.status).toEqual("completed");
+  });
+
+  it("Should fail chains whose Action plugin workflow fails", async () => {
+    const { dispatchPluginChainStep, handlePluginOutput } = await import("../src/github/utils/plugin-chain");
+    const { workflowRunCompleted } = await import("../src/github/handlers/workflow-run-completed");
+    const context = createContext();
+    const chainStateId = "0b6b1e6c-3c1a-4d5e-9f0a-2b3c4d5e6f70";
+    const runUrl = "https://github.com/ubiquity-os/rewards/actions/runs/1";
+    const state = createPluginChainState([{ id: "rewards", plugin: { owner, repo: "rewards", workflowId }, with: {}, runsOn: [] }]);
+    state.eventPayload = {
+      installation: { id: 1 },
+      pull_request: { number: 4 },
+      repository: { owner: { login: owner }, name: "repo" },
+    } as PluginChainState["eventPayload"];
+    await dispatchPluginChainStep(context, chainStateId, state);
+
+    function workflowRun(conclusion: string, path = `.github/workflows/${workflowId}`) {
+      return {
+        ...context,
+        payload: {
+          workflow_run: { conclusion, display_title: `Plugin run ${chainStateId}`, html_url: runUrl, path },
+          repository: { owner: { login: owner }, name: "rewards" },
+        },
+      } as unknown as GitHubContext<"workflow_run.completed">;
+    }
+    waitForWorkflowRun();
+    await workflowRunCompleted(workflowRun("success"));
+    await workflowRunCompleted(workflowRun("failure", ".github/workflows/other.yml"));
+    expect((await context.eventHandler.pluginChainState.get(chainStateId))?.status).toEqual("in_progress");
+
+    await workflowRunCompleted(workflowRun("cancelled"));
+    const savedState = await context.eventHandler.pluginChainState.get(chainStateId);
+    expect(savedState?.status).toEqual("failed");
+    expect(savedState?.error).toEqual({ plugin: 0, message: "WorkflowRunError: Workflow run ended with cancelled", url: runUrl });
+    expect(createComment).toHaveBeenCalledWith(expect.objectContaining({ issue_number: 4, body: expect.stringContaining(runUrl) }));
+
+    await handlePluginOutput(context, savedState as PluginChainState, { state_id: chainStateId, output: {} });
+    expect((await context.eventHandler.pluginChainState.get(chainStateId))?.outputs[0]?.error?.name).toEqual("WorkflowRunError");
+  });
+
+  it("Should carry on with the chain when the failing workflow of a plugin can continue on error", async () => {
+    const { dispatchPluginChainStep } = await import("../src/github/utils/plugin-chain");
+    const { workflowRunCompleted } = await import("../src/github/handlers/workflow-run-completed");
+    const { repositoryDispatch } = await import("../src/github/handlers/repository-dispatch");
+    dispatchWorker.mockImplementation(workerResponse({ done: true }));
+    const context = createContext();
+    const chainStateId = "0b6b1e6c-3c1a-4d5e-9f0a-2b3c4d5e6f71";
+    const state = createPluginChainState([
+      { id: "rewards", plugin: { owner, repo: "rewards", workflowId }, continueOnError: true, with: {}, runsOn: [] },
+      { plugin: firstWorkerUrl, with: { error: "${{ steps.rewards.error.message }}" }, runsOn: [] },
+    ]);
+    await dispatchPluginChainStep(context, chainStateId, state);
+
+    waitForWorkflowRun();
+    await workflowRunCompleted({
+      ...context,
+      payload: {
+        workflow_run: { conclusion: "failure", display_title: chainStateId, html_url: "https://github.com/runs/1", path: `.github/workflows/${workflowId}` },
+        repository: { owner: { login: owner }, name: "rewards" },
+      },
+    } as unknown as GitHubContext<"workflow_run.completed">);
+
+    expect(dispatchWorker).toHaveBeenCalledTimes(1);
+    expect(dispatchWorker.mock.calls[0][1]).toMatchObject({ settings: { error: "Workflow run ended with failure" } });
+    expect((await context.eventHandler.pluginChainState.get(chainStateId))?.status).toEqual("completed");
+
+    // The error envelope the plugin returns afterwards finds its plugin already done
+    const errorEnvelope = await actionOutput(context, "rewards", {});
+    await repositoryDispatch({
+      ...errorEnvelope,
+      payload: { ...errorEnvelope.payload, client_payload: { ...errorEnvelope.payload.client_payload, state_id: chainStateId } },
+    } as unknown as GitHubContext<"repository_dispatch">);
+    expect(dispatchWorker).toHaveBeenCalledTimes(1);
+  });
+
+  it("Should retry plugin dispatches according to the retry policy of the step", async () => {
+    const { dispatchPluginChainStep } = await import("../src/github/utils/plugin-chain");
+    const { DispatchError } = await import("../src/github/utils/workflow-dispatch");
+    dispatchWorker
+      .mockRejectedValueOnce(new DispatchError("Service unavailable", "server", 503))
+      .mockRejectedValueOnce(new Error("fetch failed"))
+      .mockImplementationOnce(workerResponse({ result: "ok" }))
+      .mockRejectedValueOnce(new DispatchError("Not found", "client", 404));
+    const context = createContext();
+    const state = createPluginChainState([
+      { plugin: firstWorkerUrl, retry: { attempts: 3, delay: 0, timeout: 5 }, with: {}, runsOn: [] },
+      { plugin: secondWorkerUrl, retry: { attempts: 3, delay: 0 }, with: {}, runsOn: [] },
+    ]);
+
+    await expect(dispatchPluginChainStep(context, stateId, state)).rejects.toThrow("Not found");
+
+    expect(dispatchWorker).toHaveBeenCalledTimes(4);
+    expect(dispatchWorker.mock.calls[0][2]).toEqual(5000);
+    const savedState = await context.eventHandler.pluginChainState.get(stateId);
+    expect(savedState?.outputs[0]).toEqual({ state_id: stateId, output: { result: "ok" } });
+    expect(savedState?.attempts.map((attempts) => attempts.map(({ error }) => error?.kind))).toEqual([["server", "network", undefined], ["client"]]);
+    expect(savedState?.status).toEqual("failed");
+    expect(savedState?.error).toEqual({ plugin: 1, message: "Not found" });
+  });
+
+  it("Should carry on with the chain according to the errors reported by the plugins", async () => {
+    const { dispatchPluginChainStep } = await import("../src/github/utils/plugin-chain");
+    const pluginError = { name: "Error", message: "Cannot compute rewards" };
+    dispatchWorker.mockImplementation(async (url, payload) =>
+      url === firstWorkerUrl ? { stateId: payload?.stateId, output: null, error: pluginError } : { stateId: payload?.stateId, output: { url } }
+    );
+
+    let context = createContext();
+    await dispatchPluginChainStep(
+      context,
+      stateId,
+      createPluginChainState([
+        { id: "first", plugin: firstWorkerUrl, with: {}, runsOn: [] },
+        { plugin: secondWorkerUrl, fallback: true, with: { reason: "${{ steps.first.error.message }}" }, runsOn: [] },
+        { plugin: thirdWorkerUrl, with: {}, runsOn: [] },
+      ])
+    );
+    expect(dispatchWorker.mock.calls.map(([url]) => url)).toEqual([firstWorkerUrl, secondWorkerUrl, thirdWorkerUrl]);
+    expect(dispatchWorker.mock.calls[1][1]).toMatchObject({ settings: { reason: pluginError.message } });
+    let savedState = await context.eventHandler.pluginChainState.get(stateId);
+    expect(savedState?.outputs[0]).toEqual({ state_id: stateId, output: {}, error: pluginError });
+    expect(savedState?.status).toEqual("completed");
+
+    dispatchWorker.mockClear();
+    context = createContext();
+    await dispatchPluginChainStep(
+      context,
+      stateId,
+      createPluginChainState([
+        { plugin: secondWorkerUrl, with: {}, runsOn: [] },
+        { plugin: firstWorkerUrl, fallback: true, with: {}, runsOn: [] },
+        { plugin: firstWorkerUrl, continueOnError: true, with: {}, runsOn: [] },
+        { plugin: thirdWorkerUrl, with: {}, runsOn: [] },
+      ])
+    );
+    expect(dispatchWorker.mock.calls.map(([url]) => url)).toEqual([secondWorkerUrl, firstWorkerUrl, thirdWorkerUrl]);
+    savedState = await context.eventHandler.pluginChainState.get(stateId);
+    expect(savedState?.skippedPlugins).toEqual([1]);
+    expect(savedState?.status).toEqual("completed");
+
+    dispatchWorker.mockClear();
+    context = createContext();
+    await dispatchPluginChainStep(
+      context,
+      stateId,
+      createPluginChainState([
+        { plugin: firstWorkerUrl, with: {}, runsOn: [] },
+        { plugin: secondWorkerUrl, with: {}, runsOn: [] },
+      ])
+    );
+    expect(dispatchWorker).toHaveBeenCalledTimes(1);
+    savedState = await context.eventHandler.pluginChainState.get(stateId);
+    expect(savedState?.status).toEqual("failed");
+    expect(savedState?.error).toEqual({ plugin: 0, message: "Error: Cannot compute rewards" });
+  });
+});
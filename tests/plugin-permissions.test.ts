@@ -0,0 +1,52 @@
+import { describe, expect, it, jest } from "@jest/globals";
+import { GitHubContext } from "../src/github/github-context";
+import { getMissingPermissions, getPluginToken } from "../src/github/utils/plugin-permissions";
+import { Manifest } from "../src/types/manifest";
+
+const installationPermissions = { issues: "write", contents: "read", metadata: "read" };
+
+function createContext() {
+  const getInstallation = jest.fn(() => Promise.resolve({ data: { permissions: installationPermissions } }));
+  const getToken = jest.fn(() => Promise.resolve("token"));
+  const context = {
+    eventHandler: { getToken, getUnauthenticatedOctokit: () => ({ rest: { apps: { getInstallation } } }) },
+  } as unknown as GitHubContext;
+  return { context, getInstallation, getToken };
+}
+
+function createManifest(manifest: Partial<Manifest>): Manifest {
+  return { name: "plugin", ...manifest } as Manifest;
+}
+
+describe("Plugin permissions tests", () => {
+  it("Should list the permissions going beyond the installation ones", () => {
+    expect(getMissingPermissions({ issues: "write", contents: "read" }, installationPermissions)).toEqual([]);
+    expect(getMissingPermissions({ contents: "write", actions: "read", issues: "read" }, installationPermissions)).toEqual(["contents:write", "actions:read"]);
+  });
+
+  it("Should give every permission to plugins that do not declare theirs", async () => {
+    const { context, getInstallation, getToken } = createContext();
+    await expect(getPluginToken(context, 1, createManifest({}))).resolves.toEqual("token");
+    await expect(getPluginToken(context, 1, null)).resolves.toEqual("token");
+    expect(getToken.mock.calls).toEqual([[1], [1]]);
+    expect(getInstallation).not.toHaveBeenCalled();
+  });
+
+  it("Should scope the token to the declared permissions and the repository of the event", async () => {
+    const { context, getToken } = createContext();
+    await getPluginToken(context, 1, createManifest({ "ubiquity:permissions": { issues: "write" } }), "bot");
+    await getPluginToken(context, 1, createManifest({ "ubiquity:permissions": { contents: "read" }, "ubiquity:repository-scope": "installation" }), "bot");
+    expect(getToken.mock.calls).toEqual([
+      [1, { permissions: { issues: "write" }, repositoryNames: ["bot"] }],
+      [1, { permissions: { contents: "read" }, repositoryNames: undefined }],
+    ]);
+  });
+
+  it("Should refuse plugins asking for more than the app is granted", async () => {
+    const { context, getToken } = createContext();
+    await expect(getPluginToken(context, 1, createManifest({ "ubiquity:permissions": { contents: "write" } }))).rejects.toThrow(
+      "The plugin plugin asks for permissions the app is not granted: contents:write"
+    );
+    expect(getToken).not.toHaveBeenCalled();
+  });
+});
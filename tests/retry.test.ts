@@ -0,0 +1,55 @@
+import { describe, expect, it, jest } from "@jest/globals";
+import { PluginDispatchAttempt } from "../src/github/types/plugin";
+import { dispatchWithRetry, getRetryPolicy } from "../src/github/utils/retry";
+import { DispatchError, dispatchWorker } from "../src/github/utils/workflow-dispatch";
+
+const workerUrl = "https://plugin-a.internal";
+const badGateway = "Bad gateway";
+
+describe("Retry tests", () => {
+  it("Should retry the errors the policy retries until the attempts run out", async () => {
+    const attempts: PluginDispatchAttempt[] = [];
+    const dispatch = jest.fn<(timeout: number) => Promise<string>>().mockRejectedValue(new DispatchError(badGateway, "server", 502));
+
+    await expect(dispatchWithRetry(getRetryPolicy({ attempts: 3, delay: 0, timeout: 2 }), dispatch, (attempt) => attempts.push(attempt))).rejects.toThrow(
+      badGateway
+    );
+    expect(dispatch).toHaveBeenCalledTimes(3);
+    expect(dispatch).toHaveBeenCalledWith(2000);
+    expect(attempts.map(({ error }) => error)).toEqual(new Array(3).fill({ kind: "server", message: badGateway }));
+  });
+
+  it("Should not retry errors missing from retryOn", async () => {
+    const dispatch = jest
+      .fn<(timeout: number) => Promise<string>>()
+      .mockRejectedValueOnce(Object.assign(new Error("Bad credentials"), { status: 401 }))
+      .mockResolvedValueOnce("ok");
+
+    await expect(dispatchWithRetry(getRetryPolicy({ attempts: 3, delay: 0 }), dispatch, () => {})).rejects.toMatchObject({ kind: "client", status: 401 });
+    expect(dispatch).toHaveBeenCalledTimes(1);
+    await expect(dispatchWithRetry(getRetryPolicy({ attempts: 3, delay: 0, retryOn: ["client"] }), dispatch, () => {})).resolves.toEqual("ok");
+  });
+
+  it("Should wait longer between each attempt with an exponential backoff", async () => {
+    const setTimeoutSpy = jest.spyOn(global, "setTimeout");
+    const dispatch = jest.fn<(timeout: number) => Promise<string>>().mockRejectedValue(new DispatchError("Too many requests", "rate_limit", 429));
+
+    await expect(dispatchWithRetry(getRetryPolicy({ attempts: 4, delay: 1 }), dispatch, () => {})).rejects.toThrow();
+    expect(setTimeoutSpy.mock.calls.map(([, delay]) => delay)).toEqual([1, 2, 4]);
+    setTimeoutSpy.mockClear();
+
+    await expect(dispatchWithRetry(getRetryPolicy({ attempts: 3, delay: 1, backoff: "fixed" }), dispatch, () => {})).rejects.toThrow();
+    expect(setTimeoutSpy.mock.calls.map(([, delay]) => delay)).toEqual([1, 1]);
+    setTimeoutSpy.mockRestore();
+  });
+
+  it("Should reject Worker responses with an error status", async () => {
+    const fetchSpy = jest
+      .spyOn(global, "fetch")
+      .mockResolvedValueOnce(new Response("Too many requests", { status: 429 }) as unknown as Awaited<ReturnType<typeof fetch>>);
+
+    await expect(dispatchWorker(workerUrl, {}, 1000)).rejects.toMatchObject({ kind: "rate_limit", status: 429 });
+    expect(fetchSpy.mock.calls[0][1]?.signal).toBeInstanceOf(AbortSignal);
+    fetchSpy.mockRestore();
+  });
+});
@@ -1,3 +1,4 @@
+import { http, HttpResponse } from "msw";
 import { server } from "./__mocks__/node";
 import issueCommented from "./__mocks__/requests/issue-comment-post.json";
 import { expect, describe, beforeAll, afterAll, afterEach, it, jest } from "@jest/globals";
@@ -8,6 +9,7 @@ import { Context } from "../src/sdk/context";
 import { GitHubEventHandler } from "../src/github/github-event-handler";
 import { EmptyStore } from "../src/github/utils/kv-store";
 import { PluginChainState, PluginInput } from "../src/github/types/plugin";
+import { signPluginOutput } from "../src/types/output-signature";
 import { EmitterWebhookEventName } from "@octokit/webhooks";
 
 const { publicKey, privateKey } = crypto.generateKeyPairSync("rsa", {
@@ -30,6 +32,11 @@ const issueCommentedEvent = {
 const sdkOctokitImportPath = "../src/sdk/octokit";
 const githubActionImportPath = "@actions/github";
 const githubCoreImportPath = "@actions/core";
+const kernelEventType = "return-data-to-ubiquity-os-kernel";
+const testError = "test error";
+const testStateId = "stateId";
+const outputSecret = "output-secret";
+const kernelUrl = "https://kernel.internal";
 
 const eventHandler = new GitHubEventHandler({
   environment: "production",
@@ -42,7 +49,7 @@ const eventHandler = new GitHubEventHandler({
 const app = createPlugin(
   async (context: Context<{ shouldFail: boolean }>) => {
     if (context.config.shouldFail) {
-      throw context.logger.error("test error");
+      throw context.logger.error(testError);
     }
     return {
       success: true,
@@ -87,7 +94,15 @@ describe("SDK worker tests", () => {
     expect(res.status).toEqual(400);
   });
   it("Should deny POST request with invalid signature", async () => {
-    const inputs = new PluginInput(eventHandler, "stateId", issueCommentedEvent.eventName, issueCommentedEvent.eventPayload, { shouldFail: false }, "test", "");
+    const inputs = new PluginInput(
+      eventHandler,
+      testStateId,
+      issueCommentedEvent.eventName,
+      issueCommentedEvent.eventPayload,
+      { shouldFail: false },
+      "test",
+      ""
+    );
 
     const res = await app.request("/", {
       headers: {
@@ -118,7 +133,7 @@ describe("SDK worker tests", () => {
     const app = createPlugin(
       async (context: Context<{ shouldFail: boolean }>) => {
         if (context.config.shouldFail) {
-          throw context.logger.error("test error");
+          throw context.logger.error(testError);
         }
         return {
           success: true,
@@ -129,7 +144,15 @@ describe("SDK worker tests", () => {
       { kernelPublicKey: publicKey }
     );
 
-    const inputs = new PluginInput(eventHandler, "stateId", issueCommentedEvent.eventName, issueCommentedEvent.eventPayload, { shouldFail: true }, "test", "");
+    const inputs = new PluginInput(
+      eventHandler,
+      testStateId,
+      issueCommentedEvent.eventName,
+      issueCommentedEvent.eventPayload,
+      { shouldFail: true },
+      "test",
+      ""
+    );
 
     const res = await app.request("/", {
       headers: {
@@ -139,6 +162,7 @@ describe("SDK worker tests", () => {
       method: "POST",
     });
     expect(res.status).toEqual(500);
+    expect(await res.json()).toEqual({ stateId: testStateId, output: null, error: expect.objectContaining({ name: "LogReturn", message: testError }) });
     expect(createComment).toHaveBeenCalledWith({
       issue_number: 5,
       owner: "ubiquity-os",
@@ -156,7 +180,15 @@ describe("SDK worker tests", () => {
     });
   });
   it("Should accept correct request", async () => {
-    const inputs = new PluginInput(eventHandler, "stateId", issueCommentedEvent.eventName, issueCommentedEvent.eventPayload, { shouldFail: false }, "test", "");
+    const inputs = new PluginInput(
+      eventHandler,
+      testStateId,
+      issueCommentedEvent.eventName,
+      issueCommentedEvent.eventPayload,
+      { shouldFail: false },
+      "test",
+      ""
+    );
 
     const res = await app.request("/", {
       headers: {
@@ -167,7 +199,7 @@ describe("SDK worker tests", () => {
     });
     expect(res.status).toEqual(200);
     const result = await res.json();
-    expect(result).toEqual({ stateId: "stateId", output: { success: true, event: issueCommented.eventName } });
+    expect(result).toEqual({ stateId: testStateId, output: { success: true, event: issueCommented.eventName } });
   });
 });
 
@@ -179,7 +211,16 @@ describe("SDK actions tests", () => {
   };
 
   it("Should accept correct request", async () => {
-    const inputs = new PluginInput(eventHandler, "stateId", issueCommentedEvent.eventName, issueCommentedEvent.eventPayload, {}, "test_token", "");
+    const inputs = new PluginInput(
+      eventHandler,
+      testStateId,
+      issueCommentedEvent.eventName,
+      issueCommentedEvent.eventPayload,
+      {},
+      "test_token",
+      "",
+      outputSecret
+    );
     const githubInputs = await inputs.getWorkflowInputs();
     jest.mock(githubActionImportPath, () => ({
       context: {
@@ -225,17 +266,27 @@ describe("SDK actions tests", () => {
     expect(setFailed).not.toHaveBeenCalled();
     expect(setOutput).toHaveBeenCalledWith("result", { event: issueCommented.eventName });
     expect(createDispatchEvent).toHaveBeenCalledWith({
-      event_type: "return-data-to-ubiquity-os-kernel",
+      event_type: kernelEventType,
       owner: repo.owner,
       repo: repo.repo,
       client_payload: {
-        state_id: "stateId",
+        state_id: testStateId,
         output: JSON.stringify({ event: issueCommented.eventName }),
+        signature: await signPluginOutput(outputSecret, { state_id: testStateId, output: JSON.stringify({ event: issueCommented.eventName }) }),
       },
     });
   });
   it("Should deny invalid signature", async () => {
-    const inputs = new PluginInput(eventHandler, "stateId", issueCommentedEvent.eventName, issueCommentedEvent.eventPayload, {}, "test_token", "");
+    const inputs = new PluginInput(
+      eventHandler,
+      testStateId,
+      issueCommentedEvent.eventName,
+      issueCommentedEvent.eventPayload,
+      {},
+      "test_token",
+      "",
+      outputSecret
+    );
     const githubInputs = await inputs.getWorkflowInputs();
 
     jest.mock("@actions/github", () => ({
@@ -272,7 +323,16 @@ describe("SDK actions tests", () => {
     expect(setOutput).not.toHaveBeenCalled();
   });
   it("Should accept inputs in different order", async () => {
-    const inputs = new PluginInput(eventHandler, "stateId", issueCommentedEvent.eventName, issueCommentedEvent.eventPayload, {}, "test_token", "");
+    const inputs = new PluginInput(
+      eventHandler,
+      testStateId,
+      issueCommentedEvent.eventName,
+      issueCommentedEvent.eventPayload,
+      {},
+      "test_token",
+      "",
+      outputSecret
+    );
     const githubInputs = await inputs.getWorkflowInputs();
 
     jest.mock(githubActionImportPath, () => ({
@@ -287,6 +347,7 @@ describe("SDK actions tests", () => {
             ref: githubInputs.ref,
             authToken: githubInputs.authToken,
             stateId: githubInputs.stateId,
+            outputSecret: githubInputs.outputSecret,
             eventPayload: githubInputs.eventPayload,
           },
         },
@@ -328,13 +389,237 @@ describe("SDK actions tests", () => {
     expect(setFailed).not.toHaveBeenCalled();
     expect(setOutput).toHaveBeenCalledWith("result", { event: issueCommentedEvent.eventName });
     expect(createDispatchEventFn).toHaveBeenCalledWith({
-      event_type: "return-data-to-ubiquity-os-kernel",
+      event_type: kernelEventType,
       owner: repo.owner,
       repo: repo.repo,
       client_payload: {
-        state_id: "stateId",
+        state_id: testStateId,
         output: JSON.stringify({ event: issueCommentedEvent.eventName }),
+        signature: await signPluginOutput(outputSecret, {
+          state_id: testStateId,
+          output: JSON.stringify({ event: issueCommentedEvent.eventName }),
+        }),
+      },
+    });
+  });
+  it("Should return an error envelope to the kernel when the handler throws", async () => {
+    const inputs = new PluginInput(
+      eventHandler,
+      testStateId,
+      issueCommentedEvent.eventName,
+      issueCommentedEvent.eventPayload,
+      {},
+      "test_token",
+      "",
+      outputSecret
+    );
+    const githubInputs = await inputs.getWorkflowInputs();
+    const pluginError = { name: "TypeError", message: "Cannot read the settings" };
+    jest.mock(githubActionImportPath, () => ({
+      context: {
+        runId: "1",
+        payload: {
+          inputs: githubInputs,
+        },
+        repo: repo,
+      },
+    }));
+    const setOutput = jest.fn();
+    const setFailed = jest.fn();
+    jest.mock(githubCoreImportPath, () => ({
+      setOutput,
+      setFailed,
+    }));
+    const createDispatchEvent = jest.fn();
+    jest.mock(sdkOctokitImportPath, () => ({
+      customOctokit: class MockOctokit {
+        constructor() {
+          return {
+            rest: {
+              repos: {
+                createDispatchEvent,
+              },
+              issues: {
+                createComment: jest.fn(),
+              },
+            },
+          };
+        }
+      },
+    }));
+    const { createActionsPlugin } = await import("../src/sdk/actions");
+
+    await createActionsPlugin(
+      async () => {
+        throw new TypeError(pluginError.message);
+      },
+      {
+        kernelPublicKey: publicKey,
+      }
+    );
+    expect(setFailed).toHaveBeenCalled();
+    expect(createDispatchEvent).toHaveBeenCalledWith({
+      event_type: kernelEventType,
+      owner: repo.owner,
+      repo: repo.repo,
+      client_payload: {
+        state_id: testStateId,
+        output: null,
+        error: pluginError,
+        signature: await signPluginOutput(outputSecret, {
+          state_id: testStateId,
+          output: null,
+          error: pluginError,
+        }),
+      },
+    });
+  });
+  it("Should post the output to the kernel when its URL is set", async () => {
+    const inputs = new PluginInput(
+      eventHandler,
+      testStateId,
+      issueCommentedEvent.eventName,
+      issueCommentedEvent.eventPayload,
+      {},
+      "test_token",
+      "",
+      outputSecret
+    );
+    const githubInputs = await inputs.getWorkflowInputs();
+    jest.mock(githubActionImportPath, () => ({
+      context: {
+        runId: "1",
+        payload: {
+          inputs: githubInputs,
+        },
+        repo: repo,
+      },
+    }));
+    const setOutput = jest.fn();
+    const setFailed = jest.fn();
+    jest.mock(githubCoreImportPath, () => ({
+      setOutput,
+      setFailed,
+    }));
+    const createDispatchEvent = jest.fn();
+    jest.mock(sdkOctokitImportPath, () => ({
+      customOctokit: class MockOctokit {
+        constructor() {
+          return { rest: { repos: { createDispatchEvent } } };
+        }
+      },
+    }));
+    const postedOutputs: unknown[] = [];
+    server.use(
+      http.post(`${kernelUrl}/plugin-outputs`, async ({ request }) => {
+        postedOutputs.push(await request.json());
+        return HttpResponse.json({ stateId: testStateId });
+      })
+    );
+    delete process.env.PLUGIN_GITHUB_TOKEN;
+    const { createActionsPlugin } = await import("../src/sdk/actions");
+
+    await createActionsPlugin(async (context: Context) => ({ event: context.eventName }), {
+      kernelPublicKey: publicKey,
+      kernelUrl,
+    });
+    process.env.PLUGIN_GITHUB_TOKEN = "token";
+    const output = JSON.stringify({ event: issueCommentedEvent.eventName });
+    expect(setFailed).not.toHaveBeenCalled();
+    expect(createDispatchEvent).not.toHaveBeenCalled();
+    expect(postedOutputs).toEqual([{ state_id: testStateId, output, signature: await signPluginOutput(outputSecret, { state_id: testStateId, output }) }]);
+  });
+  it("Should dispatch unsigned outputs when the plugin gets no output secret", async () => {
+    const inputs = new PluginInput(eventHandler, testStateId, issueCommentedEvent.eventName, issueCommentedEvent.eventPayload, {}, "test_token", "");
+    const githubInputs = await inputs.getWorkflowInputs();
+    expect(githubInputs).not.toHaveProperty("outputSecret");
+    jest.mock(githubActionImportPath, () => ({
+      context: {
+        runId: "1",
+        payload: {
+          inputs: githubInputs,
+        },
+        repo: repo,
+      },
+    }));
+    const setFailed = jest.fn();
+    jest.mock(githubCoreImportPath, () => ({
+      setOutput: jest.fn(),
+      setFailed,
+    }));
+    const createDispatchEvent = jest.fn();
+    jest.mock(sdkOctokitImportPath, () => ({
+      customOctokit: class MockOctokit {
+        constructor() {
+          return { rest: { repos: { createDispatchEvent } } };
+        }
       },
+    }));
+    const { createActionsPlugin } = await import("../src/sdk/actions");
+
+    await createActionsPlugin(async (context: Context) => ({ event: context.eventName }), {
+      kernelPublicKey: publicKey,
+      kernelUrl,
     });
+    expect(setFailed).not.toHaveBeenCalled();
+    expect(createDispatchEvent).toHaveBeenCalledWith({
+      event_type: kernelEventType,
+      owner: repo.owner,
+      repo: repo.repo,
+      client_payload: { state_id: testStateId, output: JSON.stringify({ event: issueCommentedEvent.eventName }) },
+    });
+  });
+  it("Should not report an output the kernel refuses as an error of the handler", async () => {
+    const inputs = new PluginInput(
+      eventHandler,
+      testStateId,
+      issueCommentedEvent.eventName,
+      issueCommentedEvent.eventPayload,
+      {},
+      "test_token",
+      "",
+      outputSecret
+    );
+    const githubInputs = await inputs.getWorkflowInputs();
+    jest.mock(githubActionImportPath, () => ({
+      context: {
+        runId: "1",
+        payload: {
+          inputs: githubInputs,
+        },
+        repo: repo,
+      },
+    }));
+    const setFailed = jest.fn();
+    jest.mock(githubCoreImportPath, () => ({
+      setOutput: jest.fn(),
+      setFailed,
+    }));
+    const createComment = jest.fn();
+    jest.mock(sdkOctokitImportPath, () => ({
+      customOctokit: class MockOctokit {
+        constructor() {
+          return { rest: { issues: { createComment } } };
+        }
+      },
+    }));
+    const postedOutputs: unknown[] = [];
+    server.use(
+      http.post(`${kernelUrl}/plugin-outputs`, async ({ request }) => {
+        postedOutputs.push(await request.json());
+        return HttpResponse.json({ error: "No plugin of the plugin chain is waiting for an output" }, { status: 409 });
+      })
+    );
+    const { createActionsPlugin } = await import("../src/sdk/actions");
+
+    await expect(
+      createActionsPlugin(async (context: Context) => ({ event: context.eventName }), {
+        kernelPublicKey: publicKey,
+        kernelUrl,
+      })
+    ).resolves.toBeUndefined();
+    expect(postedOutputs).toHaveLength(1);
+    expect(setFailed).toHaveBeenCalledWith(expect.stringContaining("could not return the output to the kernel"));
+    expect(createComment).not.toHaveBeenCalled();
   });
 });
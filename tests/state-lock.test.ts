@@ -0,0 +1,72 @@
+import { describe, expect, it, jest } from "@jest/globals";
+import { DurableObjectKv, DurableObjectLock, LocalLock, StateLock, StateLockObject } from "../src/github/utils/state-lock";
+import { DurableObjectNamespaceMock } from "./__mocks__/durable-object-namespace";
+
+const stateId = "state-id";
+
+/**
+ * Runs two updates of the same id side by side, each of them yielding between its read and its write.
+ */
+async function runConcurrentUpdates(lock: StateLock) {
+  const events: string[] = [];
+  function update(name: string) {
+    return lock.withLock(stateId, async () => {
+      events.push(`${name}:start`);
+      await new Promise((resolve) => setTimeout(resolve, 10));
+      events.push(`${name}:end`);
+      return name;
+    });
+  }
+  await expect(Promise.all([update("first"), update("second")])).resolves.toEqual(["first", "second"]);
+  return events;
+}
+
+describe("State lock tests", () => {
+  it("Should run the updates of the same id one at a time within a process", async () => {
+    const lock = new LocalLock();
+    expect(await runConcurrentUpdates(lock)).toEqual(["first:start", "first:end", "second:start", "second:end"]);
+    await expect(lock.withLock(stateId, () => Promise.reject(new Error("failed")))).rejects.toThrow("failed");
+    await expect(lock.withLock(stateId, () => Promise.resolve("released"))).resolves.toEqual("released");
+  });
+
+  it("Should run the updates of the same id one at a time through the Durable Object", async () => {
+    const namespace = new DurableObjectNamespaceMock().asNamespace();
+    expect(await runConcurrentUpdates(new DurableObjectLock(namespace))).toEqual(["first:start", "first:end", "second:start", "second:end"]);
+    const [first, second] = [new DurableObjectLock(namespace), new DurableObjectLock(namespace)];
+    await expect(first.withLock(stateId, () => second.withLock("other-id", () => Promise.resolve("independent")))).resolves.toEqual("independent");
+  });
+
+  it("Should take over the lease of a lock that was never released once it expires", async () => {
+    const object = new StateLockObject({
+      storage: { get: async () => ({ token: "evicted", expiresAt: Date.now() - 1 }), put: async () => {}, delete: async () => {} },
+    } as unknown as DurableObjectState);
+    const response = await object.fetch(new Request("https://state-lock.internal/acquire", { method: "POST", body: JSON.stringify({ token: "next" }) }));
+    expect(response.status).toEqual(204);
+  });
+
+  it("Should keep values in the Durable Object of their id until they expire", async () => {
+    const namespace = new DurableObjectNamespaceMock();
+    const store = new DurableObjectKv<{ currentPlugin: number }>(namespace.asNamespace(), { prefix: "plugin-chain:", expirationTtl: 60 });
+    const lock = new DurableObjectLock(namespace.asNamespace());
+    await store.put(stateId, { currentPlugin: 0 });
+
+    await lock.withLock(stateId, async () => {
+      const state = await store.get(stateId);
+      await store.put(stateId, { currentPlugin: (state?.currentPlugin ?? 0) + 1 });
+    });
+    await expect(store.get(stateId)).resolves.toEqual({ currentPlugin: 1 });
+    await expect(store.get("unknown")).resolves.toBeNull();
+    await expect(store.list()).rejects.toThrow();
+
+    await namespace.runAlarms(Date.now() + 59 * 1000);
+    await expect(store.get(stateId)).resolves.toEqual({ currentPlugin: 1 });
+    const now = Date.now();
+    jest.spyOn(Date, "now").mockReturnValue(now + 60 * 1000);
+    await namespace.runAlarms();
+    jest.restoreAllMocks();
+    await expect(store.get(stateId)).resolves.toBeNull();
+    await store.put(stateId, { currentPlugin: 2 });
+    await store.delete(stateId);
+    await expect(store.get(stateId)).resolves.toBeNull();
+  });
+});
@@ -0,0 +1,78 @@
+import { afterAll, afterEach, beforeAll, describe, expect, it, jest } from "@jest/globals";
+import crypto from "crypto";
+import { http, HttpResponse } from "msw";
+import { GitHubEventHandler } from "../src/github/github-event-handler";
+import { PluginChainState } from "../src/github/types/plugin";
+import { EmptyStore } from "../src/github/utils/kv-store";
+import { InstallationTokenCache } from "../src/github/utils/token-cache";
+import { server } from "./__mocks__/node";
+
+const { privateKey } = crypto.generateKeyPairSync("rsa", {
+  modulusLength: 2048,
+  publicKeyEncoding: { type: "spki", format: "pem" },
+  privateKeyEncoding: { type: "pkcs8", format: "pem" },
+});
+
+const accessTokensUrl = "https://api.github.com/app/installations/:installationId/access_tokens";
+
+function createEventHandler(tokenCache: InstallationTokenCache) {
+  return new GitHubEventHandler({
+    environment: "production",
+    webhookSecret: "webhook-secret",
+    appId: "1",
+    privateKey,
+    pluginChainState: new EmptyStore<PluginChainState>(),
+    tokenCache,
+  });
+}
+
+function mockAccessTokens() {
+  const createAccessToken = jest.fn((installationId: string) => ({
+    token: `token-${installationId}-${createAccessToken.mock.calls.length}`,
+    expires_at: new Date(Date.now() + 60 * 60 * 1000).toISOString(),
+    permissions: { issues: "write" },
+    repository_selection: "all",
+  }));
+  server.use(http.post(accessTokensUrl, ({ params }) => HttpResponse.json(createAccessToken(String(params.installationId)), { status: 201 })));
+  return createAccessToken;
+}
+
+beforeAll(() => {
+  server.listen();
+});
+afterEach(() => {
+  server.resetHandlers();
+  jest.restoreAllMocks();
+});
+afterAll(() => {
+  server.close();
+});
+
+describe("Installation token cache tests", () => {
+  it("Should reuse the token of an installation across handlers and octokit instances", async () => {
+    const createAccessToken = mockAccessTokens();
+    const tokenCache = new InstallationTokenCache();
+    const eventHandler = createEventHandler(tokenCache);
+
+    await expect(eventHandler.getToken(1)).resolves.toEqual("token-1-1");
+    await expect(eventHandler.getToken(1)).resolves.toEqual("token-1-1");
+    await expect(createEventHandler(tokenCache).getToken(1)).resolves.toEqual("token-1-1");
+    await expect(eventHandler.getAuthenticatedOctokit(1).auth({ type: "installation" })).resolves.toEqual(expect.objectContaining({ token: "token-1-1" }));
+    await expect(eventHandler.getToken(2)).resolves.toEqual("token-2-2");
+    expect(createAccessToken).toHaveBeenCalledTimes(2);
+  });
+
+  it("Should refresh tokens shortly before they expire", async () => {
+    const createAccessToken = mockAccessTokens();
+    const eventHandler = createEventHandler(new InstallationTokenCache());
+    const now = Date.now();
+    const dateSpy = jest.spyOn(Date, "now").mockReturnValue(now);
+
+    await expect(eventHandler.getToken(1)).resolves.toEqual("token-1-1");
+    dateSpy.mockReturnValue(now + 54 * 60 * 1000);
+    await expect(eventHandler.getToken(1)).resolves.toEqual("token-1-1");
+    dateSpy.mockReturnValue(now + 55 * 60 * 1000);
+    await expect(eventHandler.getToken(1)).resolves.toEqual("token-1-2");
+    expect(createAccessToken).toHaveBeenCalledTimes(2);
+  });
+});